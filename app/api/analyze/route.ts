@@ -4,26 +4,31 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { derive } from "@/lib/server/derive";
+import {
+  assertAnalysisInput,
+  EnvelopeError,
+  isExplainMode,
+  isFixtureMode,
+  narrativeRslOf,
+  parseAnalyzeBody,
+  readJsonBody,
+  type AnalysisEnvelope,
+} from "@/lib/server/envelope";
+import type { ValidationIssue } from "@/lib/server/schema";
+import { appendCohortScore, CohortError, resolveCohortReference } from "@/lib/server/cohorts";
+import { FeatureExtractionError } from "@/lib/server/extract/provider";
+import { getFeatureExtractor } from "@/lib/server/extract/registry";
+import { assertRequestRoleConfigs, getJobCatalog, getRoleConfigs, RoleFitError } from "@/lib/server/roles";
+import {
+  PolicyError,
+  resolveAnalysisPolicy,
+  tenantIdFromRequest,
+  type ResolvedPolicy,
+} from "@/lib/server/policy";
 
 // Static import to avoid Vercel/serverless filesystem pitfalls.
 import fixture from "@/lib/fixtures/fixture_analysis_input_v1.json";
 
-type AnalysisEnvelope = {
-  analysis_input: any;
-  narrative_text?: {
-    rsl?: {
-      summary?: { one_line?: string; paragraph?: string };
-      dimensions?: Array<{
-        code: string;
-        label?: string;
-        score_1to5?: number;
-        observation?: string;
-      }>;
-    };
-  };
-  meta?: { input_language?: string };
-};
-
 function generateVerificationIdV1(): string {
   const now = new Date();
   const yyyy = now.getUTCFullYear().toString();
@@ -36,30 +41,112 @@ function generateVerificationIdV1(): string {
   return `NP-${yyyy}-${mm}${dd}-${seq}`;
 }
 
-function buildMeta(envelope: AnalysisEnvelope) {
+function buildMeta(envelope: AnalysisEnvelope, resolved: ResolvedPolicy) {
   return {
     input_language: envelope.meta?.input_language ?? "EN",
+    feature_source: envelope.meta?.feature_source ?? "submitted",
+    tenant_id: resolved.tenant_id,
+    policy: resolved.policy,
     generated_at_utc: new Date().toISOString(),
     verify_url: process.env.NP_VERIFY_URL ?? "https://neuprint.ai/verify",
     verification_id: generateVerificationIdV1(),
   };
 }
 
-export async function POST(_req: Request) {
-  // Fixture-first MVP: ignore request body for now.
-  const envelope = fixture as unknown as AnalysisEnvelope;
+function errorResponse(code: string, message: string, status: number, details?: ValidationIssue[]) {
+  return NextResponse.json({ error: { code, message, ...(details ? { details } : {}) } }, { status });
+}
+
+async function resolveEnvelope(req: Request): Promise<AnalysisEnvelope> {
+  const envelope = await loadEnvelope(req);
+  return { ...envelope, analysis_input: assertAnalysisInput(envelope.analysis_input) };
+}
+
+async function loadEnvelope(req: Request): Promise<AnalysisEnvelope> {
+  // Fixture mode is explicit opt-in (env NP_FIXTURE_MODE=1 or ?fixture=1).
+  if (isFixtureMode(req)) {
+    const f = fixture as unknown as AnalysisEnvelope;
+    return { ...f, meta: { ...f.meta, feature_source: "fixture" } };
+  }
+
+  const parsed = parseAnalyzeBody(await readJsonBody(req));
+  if (parsed.envelope) return parsed.envelope;
+
+  // Text-only submission: run the configured feature extractor (NP_EXTRACTOR).
+  const extracted = await getFeatureExtractor().extract({
+    text: parsed.text as string,
+    input_language: parsed.meta.input_language,
+  });
+  return {
+    analysis_input: extracted.analysis_input,
+    narrative_text: extracted.narrative_text,
+    meta: { ...parsed.meta, feature_source: extracted.provider },
+    options: parsed.options,
+    tenant_id: parsed.tenant_id,
+    policy: parsed.policy,
+    cohort: parsed.cohort,
+  };
+}
+
+export async function POST(req: Request) {
+  // Everything up to and including derive runs here, so domain errors map to 4xx/5xx codes.
+  try {
+    return NextResponse.json(await buildReport(req));
+  } catch (e) {
+    if (e instanceof EnvelopeError) return errorResponse(e.code, e.message, e.status, e.details);
+    if (e instanceof PolicyError) return errorResponse(e.code, e.message, 400, e.details);
+    if (e instanceof CohortError) return errorResponse(e.code, e.message, e.status);
+    if (e instanceof RoleFitError) return errorResponse(e.code, e.message, e.status);
+    if (e instanceof FeatureExtractionError) return errorResponse("extraction_failed", e.message, 502);
+    throw e;
+  }
+}
+
+async function buildReport(req: Request): Promise<Record<string, any>> {
+  const envelope = await resolveEnvelope(req);
+  const resolved = resolveAnalysisPolicy(tenantIdFromRequest(req, envelope.tenant_id), envelope.policy);
+  const cohort = envelope.cohort ? await resolveCohortReference(resolved.tenant_id, envelope.cohort) : null;
+  // Request role_configs override the tenant catalog; hold them to the same rules
+  assertRequestRoleConfigs(resolved.tenant_id, envelope.analysis_input.role_configs);
 
-  // Derive expects analysis_input
-  const derived = derive(envelope.analysis_input);
+  // Narrative R1..R8 scores also feed the RSL style proxies (rfs cognitive style)
+  const narrativeRsl = narrativeRslOf(envelope);
+
+  // Derive expects analysis_input; a stored cohort replaces any inline cohort_fri_list
+  const analysisInput = cohort
+    ? { ...envelope.analysis_input, cohort_fri_list: cohort.fri_scores }
+    : envelope.analysis_input;
+  const derived = derive(analysisInput, {
+    policy: resolved.policy,
+    cff: {
+      excluded_indicators: envelope.options?.excluded_indicators,
+      explain: isExplainMode(req, envelope.options),
+    },
+    cohort: cohort ? { id: cohort.id, name: cohort.name, snapshot_id: cohort.snapshot_id } : undefined,
+    role_configs: getRoleConfigs(resolved.tenant_id),
+    job_catalog: getJobCatalog(resolved.tenant_id),
+    narrative_dimensions: narrativeRsl?.dimensions,
+  });
 
-  // Merge narrative RSL text from fixture into derived output
-  const narrativeRsl = envelope.narrative_text?.rsl;
+  // Accumulate this report's FRI into the live cohort (after positioning against it).
+  // The analysis already succeeded, so a store failure is reported on rsl.cohort, not as an error.
+  let contribution: { contributed: boolean; contribution_error?: string } | null = null;
+  if (cohort && envelope.cohort?.contribute !== false) {
+    try {
+      await appendCohortScore(resolved.tenant_id, cohort.id, derived.rsl.fri.score);
+      contribution = { contributed: true };
+    } catch {
+      contribution = { contributed: false, contribution_error: "The score could not be added to the cohort." };
+    }
+  }
 
+  // Merge narrative RSL text from the envelope into derived output
   const report = {
-    meta: buildMeta(envelope),
+    meta: buildMeta(envelope, resolved),
     ...derived,
     rsl: {
-      ...(derived as any).rsl,
+      ...derived.rsl,
+      ...(contribution ? { cohort: { ...derived.rsl.cohort, ...contribution } } : {}),
       summary: {
         one_line:
           narrativeRsl?.summary?.one_line ??
@@ -76,5 +163,5 @@ export async function POST(_req: Request) {
     },
   };
 
-  return NextResponse.json(report);
+  return report;
 }
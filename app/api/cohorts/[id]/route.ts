@@ -0,0 +1,23 @@
+// app/api/cohorts/[id]/route.ts
+// GET -> one cohort (size + snapshot list; score lists are not returned)
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { CohortError, getCohort } from "@/lib/server/cohorts";
+import { PolicyError, requireTenantId } from "@/lib/server/policy";
+
+function errorResponse(code: string, message: string, status: number) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const tenantId = requireTenantId(req);
+    return NextResponse.json({ tenant_id: tenantId, cohort: await getCohort(tenantId, params.id) });
+  } catch (e) {
+    if (e instanceof CohortError) return errorResponse(e.code, e.message, e.status);
+    if (e instanceof PolicyError) return errorResponse(e.code, e.message, 400);
+    throw e;
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/cohorts/[id]/snapshots/route.ts
+// POST -> freeze the cohort's current FRI scores as a new snapshot ("s1", "s2", ...)
+//         Reports can then be positioned with body.cohort = { id, snapshot_id }.
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { CohortError, snapshotCohort } from "@/lib/server/cohorts";
+import { PolicyError, requireTenantId } from "@/lib/server/policy";
+
+function errorResponse(code: string, message: string, status: number) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const tenantId = requireTenantId(req);
+    const cohort = await snapshotCohort(tenantId, params.id);
+    return NextResponse.json(
+      { tenant_id: tenantId, cohort, snapshot: cohort.snapshots[cohort.snapshots.length - 1] },
+      { status: 201 }
+    );
+  } catch (e) {
+    if (e instanceof CohortError) return errorResponse(e.code, e.message, e.status);
+    if (e instanceof PolicyError) return errorResponse(e.code, e.message, 400);
+    throw e;
+  }
+}
@@ -0,0 +1,42 @@
+// app/api/cohorts/route.ts
+// GET  -> cohorts of the caller's tenant
+// POST -> create a cohort { name, kind: course|grade|organization, id?, tenant_id? }
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { CohortError, createCohort, listCohorts, parseCreateCohortBody } from "@/lib/server/cohorts";
+import { EnvelopeError, readJsonBody } from "@/lib/server/envelope";
+import { PolicyError, requireTenantId } from "@/lib/server/policy";
+
+function errorResponse(code: string, message: string, status: number) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function handleError(e: unknown) {
+  if (e instanceof CohortError) return errorResponse(e.code, e.message, e.status);
+  if (e instanceof EnvelopeError) return errorResponse(e.code, e.message, e.status);
+  if (e instanceof PolicyError) return errorResponse(e.code, e.message, 400);
+  throw e;
+}
+
+export async function GET(req: Request) {
+  try {
+    const tenantId = requireTenantId(req);
+    return NextResponse.json({ tenant_id: tenantId, cohorts: await listCohorts(tenantId) });
+  } catch (e) {
+    return handleError(e);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await readJsonBody(req);
+    const bodyTenant = (body as any)?.tenant_id;
+    const tenantId = requireTenantId(req, typeof bodyTenant === "string" ? bodyTenant : null);
+    const cohort = await createCohort(tenantId, parseCreateCohortBody(body));
+    return NextResponse.json({ tenant_id: tenantId, cohort }, { status: 201 });
+  } catch (e) {
+    return handleError(e);
+  }
+}
@@ -0,0 +1,65 @@
+// app/api/role-fit/route.ts
+// POST -> per-role fit breakdown for one job_id (HR tab)
+//   body: { job_id, role_code?, tenant_id?, axes + arc_level | analysis_input }
+//   axes/arc_level are what a report returns under rfs; with analysis_input they are derived
+//   under the tenant's policy. Roles resolve against the tenant's RoleConfig and job catalogs;
+//   analysis_input.role_configs, when present, replace the tenant RoleConfigs (as in /api/analyze).
+
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { derive } from "@/lib/server/derive";
+import { computeRoleFitBreakdown, type RoleFitInput } from "@/lib/server/derive/rfs";
+import { assertAnalysisInput, EnvelopeError, readJsonBody } from "@/lib/server/envelope";
+import { PolicyError, requireTenantId, resolveAnalysisPolicy } from "@/lib/server/policy";
+import {
+  assertRequestRoleConfigs,
+  getJobCatalog,
+  getRoleConfigs,
+  getRoleConfigsForJob,
+  parseRoleFitBody,
+  RoleFitError,
+} from "@/lib/server/roles";
+import type { ValidationIssue } from "@/lib/server/schema";
+
+function errorResponse(code: string, message: string, status: number, details?: ValidationIssue[]) {
+  return NextResponse.json({ error: { code, message, ...(details ? { details } : {}) } }, { status });
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = parseRoleFitBody(await readJsonBody(req));
+    const tenantId = requireTenantId(req, body.tenant_id);
+    const catalog = getJobCatalog(tenantId);
+
+    let input: RoleFitInput;
+    let configs = getRoleConfigs(tenantId);
+    if (body.axes && body.arc_level !== undefined) {
+      input = { axes: body.axes, arc_level: body.arc_level };
+    } else {
+      const resolved = resolveAnalysisPolicy(tenantId);
+      const analysisInput = assertAnalysisInput(body.analysis_input);
+      assertRequestRoleConfigs(tenantId, analysisInput.role_configs);
+      configs = analysisInput.role_configs ?? configs;
+      const derived = derive(analysisInput, {
+        policy: resolved.policy,
+        role_configs: configs,
+        job_catalog: catalog,
+      }) as any;
+      input = { axes: derived.rfs.axes, arc_level: derived.rfs.arc_level };
+    }
+    const roles = getRoleConfigsForJob(tenantId, body.job_id, body.role_code, configs);
+
+    return NextResponse.json({
+      tenant_id: tenantId,
+      job_id: body.job_id,
+      input,
+      roles: roles.map((cfg) => computeRoleFitBreakdown(input, cfg, catalog)),
+    });
+  } catch (e) {
+    if (e instanceof RoleFitError) return errorResponse(e.code, e.message, e.status);
+    if (e instanceof EnvelopeError) return errorResponse(e.code, e.message, e.status, e.details);
+    if (e instanceof PolicyError) return errorResponse(e.code, e.message, 400, e.details);
+    throw e;
+  }
+}
@@ -25,8 +25,18 @@ function KV({ k, v }: { k: string; v: any }) {
   )
 }
 
+// Accepts a list, a single string, or a keyed object such as { "1": "...", "2": "..." }
 function Lines({ lines }: { lines: any }) {
-  const arr = Array.isArray(lines) ? lines : typeof lines === 'string' ? [lines] : []
+  const arr = Array.isArray(lines)
+    ? lines
+    : typeof lines === 'string'
+      ? [lines]
+      : lines && typeof lines === 'object'
+        ? Object.keys(lines)
+            .sort((a, b) => Number(a) - Number(b))
+            .map((k) => lines[k])
+            .filter((t) => t !== '' && t != null)
+        : []
   if (!arr.length) return <div style={{ color: '#b00' }}>MISSING</div>
   return (
     <ul style={{ margin: '8px 0 0 18px' }}>
@@ -72,16 +82,34 @@ export default function Report({ data }: { data: NeuPrintReport | null }) {
       </SectionCard>
 
       <SectionCard title="Hero">
-        <KV k="rsl_level" v={s.hero.rsl_level ?? s.rsl?.level?.meta?.level_short_name ?? s.rsl?.level} />
+        <KV k="rsl_level" v={s.hero.rsl_level ?? s.rsl?.level_meta?.level_short_name ?? s.rsl?.level} />
         <KV k="determination" v={s.hero.determination ?? s.rc?.determination ?? s.rc?.label} />
-        <KV k="fri" v={s.hero.fri ?? s.rsl?.fri ?? s.cff?.fri} />
+        <KV k="fri" v={s.hero.fri ?? s.rsl?.fri?.score ?? s.cff?.fri} />
         <KV k="control" v={s.hero.control ?? s.rc?.control_label ?? s.rc?.control} />
         <KV k="role_fit" v={s.hero.role_fit ?? s.rfs?.top_group ?? s.rfs?.top_groups?.[0]?.group_name} />
       </SectionCard>
 
       <SectionCard title="RSL Summary">
-        <KV k="level" v={s.rsl?.level?.meta?.level_short_name ?? s.rsl?.level} />
-        <KV k="rubric_mean_0to5" v={s.rsl?.level?.rubric_mean_0to5 ?? s.rsl?.rubric_mean_0to5} />
+        <KV k="level" v={s.rsl?.level_meta?.level_short_name ?? s.rsl?.level} />
+        <KV k="rubric_mean_0to5" v={s.rsl?.rubric_mean_0to5} />
+        <KV
+          k="evidence_link_rate"
+          v={
+            s.rsl?.level_evidence
+              ? `${s.rsl.level_evidence.evidence_link_rate_0to1} (${s.rsl.level_evidence.link_rate_source})${s.rsl.level_evidence.capped_by_evidence ? ' · capped at L3 by evidence gate' : ''}`
+              : undefined
+          }
+        />
+        <KV
+          k="cohort"
+          v={
+            s.rsl?.cohort?.display_label ??
+            (s.rsl?.cohort && !s.rsl.cohort.sufficient
+              ? `n=${s.rsl.cohort.cohort_size} (min ${s.rsl.cohort.min_cohort_size} to position)`
+              : undefined)
+          }
+        />
+        <KV k="sri" v={s.rsl?.sri ? `${s.rsl.sri.score} (${s.rsl.sri.band})` : undefined} />
         <div style={{ marginTop: 8, fontSize: 13, lineHeight: 1.5 }}>
           {s.rsl?.summary?.one_line ? (
             <div style={{ fontWeight: 800 }}>{String(s.rsl.summary.one_line)}</div>
@@ -144,6 +172,10 @@ export default function Report({ data }: { data: NeuPrintReport | null }) {
       <SectionCard title="Role Fit & Cognitive Style">
         <KV k="primary_pattern" v={s.rfs?.primary_pattern} />
         <KV k="representative_phrase" v={s.rfs?.representative_phrase} />
+        <KV
+          k="style (structure / exploration)"
+          v={s.rfs?.style_id ? `#${s.rfs.style_id} (${s.rfs.structure_score} / ${s.rfs.exploration_score})` : undefined}
+        />
         <div style={{ marginTop: 8, fontSize: 13, lineHeight: 1.5 }}>
           {s.rfs?.pattern_interpretation ? <div>{String(s.rfs.pattern_interpretation)}</div> : <div style={{ color: '#b00' }}>MISSING</div>}
         </div>
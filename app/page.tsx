@@ -7,11 +7,13 @@ export default function Page() {
   const [text, setText] = useState('')
   const [loading, setLoading] = useState(false)
   const [data, setData] = useState<any | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
   async function run() {
     const t = text.trim()
     if (!t) return
     setLoading(true)
+    setError(null)
     try {
       const res = await fetch('/api/analyze', {
         method: 'POST',
@@ -19,6 +21,10 @@ export default function Page() {
         body: JSON.stringify({ text: t })
       })
       const json = await res.json()
+      if (!res.ok) {
+        setError(json?.error?.message ?? `Request failed (${res.status})`)
+        return
+      }
       setData(json)
     } catch (e) {
       console.error(e)
@@ -56,6 +62,7 @@ export default function Page() {
           <span style={{ fontSize: 12, color: '#666' }}>
             {data ? 'Report ready' : 'No report yet'}
           </span>
+          {error ? <span style={{ fontSize: 12, color: '#b00' }}>{error}</span> : null}
         </div>
       </section>
 
@@ -0,0 +1,273 @@
+// lib/server/cohorts.ts
+// File-backed cohort store for RSL percentile positioning.
+//
+// - One JSON file per cohort: <NP_DATA_DIR>/cohorts/<tenant_id>/<id>.json (NP_DATA_DIR defaults to .np-data)
+// - A cohort accumulates the FRI score of every analysis submitted with body.cohort
+//   (unless cohort.contribute === false).
+// - Snapshots freeze the current score list so reports can be positioned against a
+//   fixed reference set (body.cohort.snapshot_id).
+// - Cohorts are tenant-scoped: each tenant has its own id namespace.
+// - Read-modify-write is serialized per cohort within the process; writes go through
+//   a uniquely named temp file so concurrent requests never clobber each other.
+
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type CohortKind = "course" | "grade" | "organization";
+
+export const COHORT_KINDS: CohortKind[] = ["course", "grade", "organization"];
+
+export type CohortSnapshot = {
+  id: string; // "s1", "s2", ...
+  created_at: string;
+  fri_scores: number[];
+};
+
+export type Cohort = {
+  id: string;
+  name: string;
+  kind: CohortKind;
+  tenant_id: string;
+  created_at: string;
+  updated_at: string;
+  fri_scores: number[];
+  snapshots: CohortSnapshot[];
+};
+
+// Public listing shape (score lists omitted)
+export type CohortSummary = {
+  id: string;
+  name: string;
+  kind: CohortKind;
+  size: number;
+  created_at: string;
+  updated_at: string;
+  snapshots: Array<{ id: string; created_at: string; size: number }>;
+};
+
+// body.cohort on POST /api/analyze
+export type CohortRef = {
+  id: string;
+  snapshot_id?: string;
+  contribute?: boolean; // default true
+};
+
+// Scores to position a report against, plus what the report prints next to the label
+export type CohortReference = {
+  id: string;
+  name: string;
+  snapshot_id: string | null;
+  fri_scores: number[];
+};
+
+export class CohortError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = "CohortError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const TENANT_RE = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+function dataDir(tenantId: string): string {
+  if (!TENANT_RE.test(tenantId)) throw new CohortError("invalid_tenant", `Invalid tenant id "${tenantId}".`);
+  return path.resolve(process.env.NP_DATA_DIR || ".np-data", "cohorts", tenantId);
+}
+
+function cohortPath(tenantId: string, id: string): string {
+  if (!ID_RE.test(id)) throw new CohortError("invalid_cohort_id", `Invalid cohort id "${id}".`);
+  return path.join(dataDir(tenantId), `${id}.json`);
+}
+
+// Names with no a-z / 0-9 (e.g. Korean) slug to "", so they get a generated id instead.
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+  return slug || `cohort-${randomUUID().slice(0, 8)}`;
+}
+
+// Per-cohort promise chain: read-modify-write sections run one at a time.
+const cohortLocks = new Map<string, Promise<unknown>>();
+
+function withCohortLock<T>(tenantId: string, id: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${tenantId}/${id}`;
+  const prev = cohortLocks.get(key) ?? Promise.resolve();
+  const run = prev.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  cohortLocks.set(key, tail);
+  void tail.then(() => {
+    if (cohortLocks.get(key) === tail) cohortLocks.delete(key);
+  });
+  return run;
+}
+
+function summarize(c: Cohort): CohortSummary {
+  return {
+    id: c.id,
+    name: c.name,
+    kind: c.kind,
+    size: c.fri_scores.length,
+    created_at: c.created_at,
+    updated_at: c.updated_at,
+    snapshots: c.snapshots.map((s) => ({ id: s.id, created_at: s.created_at, size: s.fri_scores.length })),
+  };
+}
+
+async function readCohort(tenantId: string, id: string): Promise<Cohort | null> {
+  try {
+    return JSON.parse(await fs.readFile(cohortPath(tenantId, id), "utf8")) as Cohort;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+// Write to a unique temp file then rename, so readers never see a half-written cohort.
+async function writeCohort(c: Cohort): Promise<void> {
+  const file = cohortPath(c.tenant_id, c.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(c, null, 2) + "\n");
+  await fs.rename(tmp, file);
+}
+
+async function requireCohort(tenantId: string, id: string): Promise<Cohort> {
+  const c = await readCohort(tenantId, id);
+  if (!c || c.tenant_id !== tenantId) throw new CohortError("unknown_cohort", `Unknown cohort "${id}".`, 404);
+  return c;
+}
+
+/* =========================
+   Store API
+========================= */
+
+export async function listCohorts(tenantId: string): Promise<CohortSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dataDir(tenantId));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+
+  const out: CohortSummary[] = [];
+  for (const f of files.filter((f) => f.endsWith(".json")).sort()) {
+    const c = await readCohort(tenantId, f.slice(0, -".json".length));
+    if (c && c.tenant_id === tenantId) out.push(summarize(c));
+  }
+  return out;
+}
+
+export async function getCohort(tenantId: string, id: string): Promise<CohortSummary> {
+  return summarize(await requireCohort(tenantId, id));
+}
+
+export async function createCohort(
+  tenantId: string,
+  input: { name: string; kind: CohortKind; id?: string }
+): Promise<CohortSummary> {
+  const id = input.id ?? slugify(input.name);
+  if (!ID_RE.test(id)) {
+    throw new CohortError("invalid_cohort_id", "`id` must be 1-64 chars of a-z, 0-9, '-' or '_'.");
+  }
+
+  return withCohortLock(tenantId, id, async () => {
+    if (await readCohort(tenantId, id)) {
+      throw new CohortError("cohort_exists", `Cohort "${id}" already exists.`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const c: Cohort = {
+      id,
+      name: input.name,
+      kind: input.kind,
+      tenant_id: tenantId,
+      created_at: now,
+      updated_at: now,
+      fri_scores: [],
+      snapshots: [],
+    };
+    await writeCohort(c);
+    return summarize(c);
+  });
+}
+
+export async function snapshotCohort(tenantId: string, id: string): Promise<CohortSummary> {
+  return withCohortLock(tenantId, id, async () => {
+    const c = await requireCohort(tenantId, id);
+    const now = new Date().toISOString();
+    c.snapshots.push({ id: `s${c.snapshots.length + 1}`, created_at: now, fri_scores: [...c.fri_scores] });
+    c.updated_at = now;
+    await writeCohort(c);
+    return summarize(c);
+  });
+}
+
+/** Scores for positioning: the named snapshot, else the live list. */
+export async function resolveCohortReference(tenantId: string, ref: CohortRef): Promise<CohortReference> {
+  const c = await requireCohort(tenantId, ref.id);
+  if (ref.snapshot_id === undefined) {
+    return { id: c.id, name: c.name, snapshot_id: null, fri_scores: c.fri_scores };
+  }
+
+  const s = c.snapshots.find((x) => x.id === ref.snapshot_id);
+  if (!s) throw new CohortError("unknown_snapshot", `Cohort "${c.id}" has no snapshot "${ref.snapshot_id}".`, 404);
+  return { id: c.id, name: c.name, snapshot_id: s.id, fri_scores: s.fri_scores };
+}
+
+export async function appendCohortScore(tenantId: string, id: string, fri: number): Promise<void> {
+  await withCohortLock(tenantId, id, async () => {
+    const c = await requireCohort(tenantId, id);
+    c.fri_scores.push(fri);
+    c.updated_at = new Date().toISOString();
+    await writeCohort(c);
+  });
+}
+
+/* =========================
+   Body parsing
+========================= */
+
+export function parseCohortRef(x: unknown): CohortRef {
+  if (!x || typeof x !== "object" || Array.isArray(x)) {
+    throw new CohortError("invalid_cohort", "`cohort` must be an object.");
+  }
+  const r = x as Record<string, unknown>;
+  if (typeof r.id !== "string" || !ID_RE.test(r.id)) {
+    throw new CohortError("invalid_cohort", "`cohort.id` must be a cohort id.");
+  }
+  if (r.snapshot_id !== undefined && typeof r.snapshot_id !== "string") {
+    throw new CohortError("invalid_cohort", "`cohort.snapshot_id` must be a string.");
+  }
+  if (r.contribute !== undefined && typeof r.contribute !== "boolean") {
+    throw new CohortError("invalid_cohort", "`cohort.contribute` must be a boolean.");
+  }
+  return { id: r.id, snapshot_id: r.snapshot_id, contribute: r.contribute };
+}
+
+export function parseCreateCohortBody(x: unknown): { name: string; kind: CohortKind; id?: string } {
+  if (!x || typeof x !== "object" || Array.isArray(x)) {
+    throw new CohortError("invalid_body", "Request body must be a JSON object.");
+  }
+  const b = x as Record<string, unknown>;
+  if (typeof b.name !== "string" || !b.name.trim()) {
+    throw new CohortError("invalid_cohort", "`name` must be a non-empty string.");
+  }
+  if (!COHORT_KINDS.includes(b.kind as CohortKind)) {
+    throw new CohortError("invalid_cohort", `\`kind\` must be one of ${COHORT_KINDS.join(", ")}.`);
+  }
+  if (b.id !== undefined && typeof b.id !== "string") {
+    throw new CohortError("invalid_cohort", "`id` must be a string.");
+  }
+  return { name: b.name.trim(), kind: b.kind as CohortKind, id: b.id as string | undefined };
+}
@@ -1,16 +1,39 @@
-import { deriveRsl } from "./derive/rsl";
-import { deriveCff } from "./derive/cff";
+import { deriveRsl, type DeriveRslOptions, type DeriveRslResult } from "./derive/rsl";
+import { deriveCff, type DeriveCffOptions } from "./derive/cff";
 import { deriveRc } from "./derive/rc";
-import { deriveRfs } from "./derive/rfs";
+import { deriveRfs, type JobCatalog, type RoleConfig } from "./derive/rfs";
+import type { AnalysisPolicy } from "./policy";
+import { getRoleConfigs } from "./roles";
+import type { AnalysisInputV1 } from "./schema";
 
-export type DeriveInput = any;
+// Canonical analysis_input (validate with validateAnalysisInput before calling).
+export type DeriveInput = AnalysisInputV1;
 
-export function derive(input: DeriveInput): Record<string, any> {
+export type DeriveOptions = {
+  policy?: AnalysisPolicy; // resolved per tenant/request (lib/server/policy.ts)
+  cff?: DeriveCffOptions;
+  cohort?: DeriveRslOptions["cohort"]; // named cohort behind input.cohort_fri_list
+  narrative_dimensions?: DeriveRslOptions["narrative_dimensions"]; // narrative_text.rsl.dimensions (R1..R8)
+  role_configs?: RoleConfig[]; // active role catalog (lib/server/roles.ts); default: built-in
+  job_catalog?: JobCatalog; // active job groups + templates (lib/server/roles.ts); default: built-in
+};
+
+// Merged report blocks; rsl is typed (routes read fri/cohort back), the rest stays open.
+export type DeriveResult = Record<string, any> & DeriveRslResult;
+
+export function derive(input: DeriveInput, opts?: DeriveOptions): DeriveResult {
   // Run in fixed order, then deep-merge results
-  const a = deriveRsl(input);
-  const b = deriveCff(input);
-  const c = deriveRc({ ...input, ...b }); // allow rc to see cff if needed
-  const d = deriveRfs({ ...input, ...b, ...a });
+  const a = deriveRsl(input, {
+    ...opts?.policy?.rsl,
+    cohort: opts?.cohort,
+    narrative_dimensions: opts?.narrative_dimensions
+  });
+  const b = deriveCff(input, { ...opts?.cff, ...opts?.policy?.cff });
+  const c = deriveRc(input, { cff: b.cff, centroid_profile: opts?.policy?.rc.centroid_profile });
+  const d = deriveRfs(
+    { ...input, ...b, ...a },
+    { role_configs: opts?.role_configs ?? getRoleConfigs(), job_catalog: opts?.job_catalog }
+  );
 
   return deepMergeAll(a, b, c, d);
 
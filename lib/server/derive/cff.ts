@@ -1,3 +1,4 @@
+import type { AnalysisInputV1 } from "../schema";
 
 /* =====================
    SOURCE: Backend_5_Observed Reasoning Patterns.ts
@@ -399,6 +400,31 @@ export function computeCffPatternOut(core: CoreAxes, opts?: ObservedOptions): Cf
 
 export type StructureType = "linear" | "hierarchical" | "networked";
 
+// evidence_types arrives either as a list of types or as a { type: count } map
+export type EvidenceTypesInput = string[] | Record<string, number>;
+
+/**
+ * resolveEvidenceTypes
+ * - list form: distinct non-empty type names (first-seen order)
+ * - count-map form: types whose count is > 0 (key order)
+ */
+export function resolveEvidenceTypes(x: EvidenceTypesInput | null | undefined): string[] {
+  const out: string[] = [];
+  const add = (t: string) => {
+    const k = t.trim();
+    if (k && !out.includes(k)) out.push(k);
+  };
+
+  if (Array.isArray(x)) {
+    for (const t of x) if (typeof t === "string") add(t);
+  } else if (x && typeof x === "object") {
+    for (const [t, n] of Object.entries(x)) {
+      if (typeof n === "number" && Number.isFinite(n) && n > 0) add(t);
+    }
+  }
+  return out;
+}
+
 export type RawFeaturesV1 = {
   // 공통 전제
   units: number;   // U
@@ -425,7 +451,7 @@ export type RawFeaturesV1 = {
   belief_change?: boolean;
 
   // 5) EDS
-  evidence_types?: string[]; // set 취급
+  evidence_types?: EvidenceTypesInput; // resolveEvidenceTypes로 set 취급
 
   // 6) IFD
   intent_markers: number;
@@ -504,7 +530,7 @@ export function computeCFF6_v1(raw: RawFeaturesV1): CFF6 {
   const intentMarkers = Math.max(0, raw.intent_markers || 0);
   const driftSeg = Math.max(0, raw.drift_segments || 0);
 
-  const evTypes = raw.evidence_types ? new Set(raw.evidence_types) : new Set<string>();
+  const evTypes = new Set(resolveEvidenceTypes(raw.evidence_types));
 
   // 1) AAS – Argument Architecture Style (문서 수식 그대로)
   const hierarchy_ratio = safeDiv(sub, C);
@@ -682,6 +708,8 @@ export type IndicatorCode =
   | "KPF-Sim"
   | "TPS-H";
 
+export const INDICATOR_CODES: IndicatorCode[] = ["AAS", "CTF", "RMD", "RDX", "EDS", "IFD", "KPF-Sim", "TPS-H"];
+
 export type IndicatorStatus = "Active" | "Excluded" | "Missing";
 
 export type DetCode =
@@ -714,9 +742,58 @@ export type CffFinalTypePublic = {
   interpretation: string;
 };
 
+export type CffDeterminationIndicators = {
+  active: IndicatorCode[];
+  excluded: IndicatorCode[];
+  missing: IndicatorCode[];
+};
+
+export type DetRuleGroup = "T5T6" | "Hx" | "Ax" | "T";
+
+type DetRule = {
+  group: DetRuleGroup;
+  code: DetCode;
+  prio: number; // only used inside the "T" group
+  rule: string;
+  inputs: Array<number | null>;
+  pass: (v: number[]) => boolean;
+  margin: (v: number[]) => number;
+};
+
+export type CffCandidateTrace = {
+  code: DetCode;
+  group: DetRuleGroup;
+  rule: string;
+  evaluated: boolean; // false when an input axis is missing
+  pass: boolean;
+  margin: number | null; // >= 0 when the rule holds
+  outcome: "selected" | "lost";
+  lost_reason?: string;
+};
+
+/** Audit trace for a disputed classification (opts.explain). */
+export type CffFinalTypeExplain = {
+  track: "Human" | "Hybrid" | "AI";
+  conservative_lock_ai_hybrid: boolean;
+  t2_mode: "Regulation" | "MetacogRaw";
+  track_groups: DetRuleGroup[];
+  axes: {
+    MachineScore: number | null;
+    Authenticity: number | null;
+    Analyticity: number | null;
+    Flow: number | null;
+    MetacogRaw: number | null;
+    Regulation: number | null;
+  };
+  candidates: CffCandidateTrace[];
+  winner: { code: DetCode; source: "rule" | "default"; group: DetRuleGroup | null };
+};
+
 export type CffOut = {
   cff: {
     final_type: CffFinalTypePublic;
+    determination_indicators: CffDeterminationIndicators;
+    final_type_explain?: CffFinalTypeExplain;
   };
 };
 
@@ -841,6 +918,7 @@ export function computeFinalDeterminationCff(
   opts?: {
     t2_mode?: "Regulation" | "MetacogRaw";
     conservative_lock_ai_hybrid?: boolean;
+    explain?: boolean; // attach final_type_explain
   }
 ): CffOut {
   const t2Mode = opts?.t2_mode ?? "Regulation";
@@ -891,153 +969,149 @@ export function computeFinalDeterminationCff(
             ? "Hybrid"
             : "Human";
 
-  function chooseHumanT(): { code: DetCode; conf: number } {
-    const cand: Array<{ prio: number; code: DetCode; conf: number }> = [];
-
-    if (Analyticity != null && Flow != null && MetacogRaw != null) {
-      if (Analyticity >= 0.6 && Flow >= 0.6 && MetacogRaw >= 0.6) {
-        const margin = Math.min(Analyticity - 0.6, Flow - 0.6, MetacogRaw - 0.6);
-        cand.push({ prio: 4, code: "T4", conf: confFromMargin(margin) });
-      }
-    }
-
-    const axis = t2Mode === "Regulation" ? Regulation : MetacogRaw;
-    if (axis != null && axis >= 0.7) {
-      const margin = axis - 0.7;
-      cand.push({ prio: 3, code: "T2", conf: confFromMargin(margin) });
-    }
-
-    if (Analyticity != null && Flow != null) {
-      if (Analyticity >= 0.7 && Flow < 0.55) {
-        const margin = Math.min(Analyticity - 0.7, 0.55 - Flow);
-        cand.push({ prio: 2, code: "T1", conf: confFromMargin(margin) });
-      }
-    }
-
-    if (Flow != null && Analyticity != null) {
-      if (Flow >= 0.7 && Analyticity < 0.55) {
-        const margin = Math.min(Flow - 0.7, 0.55 - Analyticity);
-        cand.push({ prio: 1, code: "T3", conf: confFromMargin(margin) });
-      }
-    }
-
-    cand.sort((a, b) => b.prio - a.prio || b.conf - a.conf);
-    if (cand.length === 0) return { code: "T2", conf: 0.6 };
-    return { code: cand[0].code, conf: cand[0].conf };
-  }
-
-  function chooseAx(): { code: DetCode; conf: number } | null {
-    if (AAS != null && RDX != null && RMD != null) {
-      if (AAS >= 0.8 && RDX <= 0.4 && RMD <= 0.45) {
-        const margin = Math.min(AAS - 0.8, 0.4 - RDX, 0.45 - RMD);
-        return { code: "Ax-1", conf: confFromMargin(margin) };
-      }
-    }
-
-    if (EDS != null && AAS != null && IFD != null) {
-      if (EDS >= 0.8 && AAS >= 0.65 && IFD <= 0.4) {
-        const margin = Math.min(EDS - 0.8, AAS - 0.65, 0.4 - IFD);
-        return { code: "Ax-2", conf: confFromMargin(margin) };
-      }
-    }
-
-    if (Flow != null && MachineScore != null) {
-      if (Flow >= 0.65 && MachineScore >= 0.7) {
-        const margin = Math.min(Flow - 0.65, MachineScore - 0.7);
-        return { code: "Ax-3", conf: confFromMargin(margin) };
-      }
-    }
-
-    if (AAS != null && RDX != null && IFD != null) {
-      if (AAS >= 0.75 && RDX <= 0.45 && IFD <= 0.35) {
-        const margin = Math.min(AAS - 0.75, 0.45 - RDX, 0.35 - IFD);
-        return { code: "Ax-4", conf: confFromMargin(margin) };
-      }
-    }
-
-    return null;
-  }
-
-  function chooseHx(): { code: DetCode; conf: number } | null {
-    if (KPF == null) return null;
-
-    if (RDX != null && RDX >= 0.6 && KPF >= 0.25 && KPF <= 0.55) {
-      const margin = Math.min(RDX - 0.6, KPF - 0.25, 0.55 - KPF);
-      return { code: "Hx-1", conf: confFromMargin(margin) };
-    }
-
-    if (AAS != null && CTF != null && AAS >= 0.6 && CTF >= 0.6 && KPF >= 0.25 && KPF <= 0.55) {
-      const margin = Math.min(AAS - 0.6, CTF - 0.6, KPF - 0.25, 0.55 - KPF);
-      return { code: "Hx-2", conf: confFromMargin(margin) };
-    }
-
-    if (EDS != null && EDS >= 0.75 && KPF >= 0.25 && KPF <= 0.55) {
-      const margin = Math.min(EDS - 0.75, KPF - 0.25, 0.55 - KPF);
-      return { code: "Hx-3", conf: confFromMargin(margin) };
-    }
-
-    if (AAS != null && RMD != null && AAS >= 0.7 && RMD <= 0.45 && KPF >= 0.45) {
-      const margin = Math.min(AAS - 0.7, 0.45 - RMD, KPF - 0.45);
-      return { code: "Hx-4", conf: confFromMargin(margin) };
-    }
+  // Candidate rules, in the order each group is checked.
+  // - "T" group: highest prio wins, then higher confidence
+  // - other groups: first passing rule wins
+  const axis = t2Mode === "Regulation" ? Regulation : MetacogRaw;
+  const rules: DetRule[] = [
+    // T5/T6 (Human track, needs Authenticity and MachineScore)
+    {
+      group: "T5T6", code: "T6", prio: 0, rule: "MachineScore >= 0.7 OR Authenticity <= 0.4",
+      inputs: [MachineScore, Authenticity],
+      pass: ([m, a]) => m >= 0.7 || a <= 0.4,
+      margin: ([m, a]) => Math.max(m - 0.7, 0.4 - a),
+    },
+    {
+      group: "T5T6", code: "T5", prio: 0, rule: "Authenticity >= 0.75",
+      inputs: [Authenticity],
+      pass: ([a]) => a >= 0.75,
+      margin: ([a]) => a - 0.75,
+    },
 
-    return null;
-  }
+    // Hx (Hybrid track, needs KPF)
+    {
+      group: "Hx", code: "Hx-1", prio: 0, rule: "RDX >= 0.6 AND 0.25 <= KPF <= 0.55",
+      inputs: [RDX, KPF],
+      pass: ([r, k]) => r >= 0.6 && k >= 0.25 && k <= 0.55,
+      margin: ([r, k]) => Math.min(r - 0.6, k - 0.25, 0.55 - k),
+    },
+    {
+      group: "Hx", code: "Hx-2", prio: 0, rule: "AAS >= 0.6 AND CTF >= 0.6 AND 0.25 <= KPF <= 0.55",
+      inputs: [AAS, CTF, KPF],
+      pass: ([a, c, k]) => a >= 0.6 && c >= 0.6 && k >= 0.25 && k <= 0.55,
+      margin: ([a, c, k]) => Math.min(a - 0.6, c - 0.6, k - 0.25, 0.55 - k),
+    },
+    {
+      group: "Hx", code: "Hx-3", prio: 0, rule: "EDS >= 0.75 AND 0.25 <= KPF <= 0.55",
+      inputs: [EDS, KPF],
+      pass: ([e, k]) => e >= 0.75 && k >= 0.25 && k <= 0.55,
+      margin: ([e, k]) => Math.min(e - 0.75, k - 0.25, 0.55 - k),
+    },
+    {
+      group: "Hx", code: "Hx-4", prio: 0, rule: "AAS >= 0.7 AND RMD <= 0.45 AND KPF >= 0.45",
+      inputs: [AAS, RMD, KPF],
+      pass: ([a, r, k]) => a >= 0.7 && r <= 0.45 && k >= 0.45,
+      margin: ([a, r, k]) => Math.min(a - 0.7, 0.45 - r, k - 0.45),
+    },
 
-  function chooseT5T6(): { code: DetCode; conf: number } | null {
-    if (Authenticity == null || MachineScore == null) return null;
+    // Ax (AI track)
+    {
+      group: "Ax", code: "Ax-1", prio: 0, rule: "AAS >= 0.8 AND RDX <= 0.4 AND RMD <= 0.45",
+      inputs: [AAS, RDX, RMD],
+      pass: ([a, r, m]) => a >= 0.8 && r <= 0.4 && m <= 0.45,
+      margin: ([a, r, m]) => Math.min(a - 0.8, 0.4 - r, 0.45 - m),
+    },
+    {
+      group: "Ax", code: "Ax-2", prio: 0, rule: "EDS >= 0.8 AND AAS >= 0.65 AND IFD <= 0.4",
+      inputs: [EDS, AAS, IFD],
+      pass: ([e, a, i]) => e >= 0.8 && a >= 0.65 && i <= 0.4,
+      margin: ([e, a, i]) => Math.min(e - 0.8, a - 0.65, 0.4 - i),
+    },
+    {
+      group: "Ax", code: "Ax-3", prio: 0, rule: "Flow >= 0.65 AND MachineScore >= 0.7",
+      inputs: [Flow, MachineScore],
+      pass: ([f, m]) => f >= 0.65 && m >= 0.7,
+      margin: ([f, m]) => Math.min(f - 0.65, m - 0.7),
+    },
+    {
+      group: "Ax", code: "Ax-4", prio: 0, rule: "AAS >= 0.75 AND RDX <= 0.45 AND IFD <= 0.35",
+      inputs: [AAS, RDX, IFD],
+      pass: ([a, r, i]) => a >= 0.75 && r <= 0.45 && i <= 0.35,
+      margin: ([a, r, i]) => Math.min(a - 0.75, 0.45 - r, 0.35 - i),
+    },
 
-    if (MachineScore >= 0.7 || Authenticity <= 0.4) {
-      const margin = Math.max(MachineScore - 0.7, 0.4 - Authenticity);
-      return { code: "T6", conf: confFromMargin(margin) };
-    }
+    // Human T (fallback group on every track)
+    {
+      group: "T", code: "T4", prio: 4, rule: "Analyticity >= 0.6 AND Flow >= 0.6 AND MetacogRaw >= 0.6",
+      inputs: [Analyticity, Flow, MetacogRaw],
+      pass: ([a, f, m]) => a >= 0.6 && f >= 0.6 && m >= 0.6,
+      margin: ([a, f, m]) => Math.min(a - 0.6, f - 0.6, m - 0.6),
+    },
+    {
+      group: "T", code: "T2", prio: 3, rule: `${t2Mode} >= 0.7`,
+      inputs: [axis],
+      pass: ([x]) => x >= 0.7,
+      margin: ([x]) => x - 0.7,
+    },
+    {
+      group: "T", code: "T1", prio: 2, rule: "Analyticity >= 0.7 AND Flow < 0.55",
+      inputs: [Analyticity, Flow],
+      pass: ([a, f]) => a >= 0.7 && f < 0.55,
+      margin: ([a, f]) => Math.min(a - 0.7, 0.55 - f),
+    },
+    {
+      group: "T", code: "T3", prio: 1, rule: "Flow >= 0.7 AND Analyticity < 0.55",
+      inputs: [Flow, Analyticity],
+      pass: ([f, a]) => f >= 0.7 && a < 0.55,
+      margin: ([f, a]) => Math.min(f - 0.7, 0.55 - a),
+    },
+  ];
+
+  const evaluated = rules.map((r) => {
+    const ready = r.inputs.every((v) => v != null);
+    const vals = r.inputs as number[];
+    const pass = ready && r.pass(vals);
+    const margin = ready ? r.margin(vals) : null;
+    return { ...r, ready, passed: pass, margin_value: margin, conf: margin != null && pass ? confFromMargin(margin) : 0 };
+  });
 
-    if (Authenticity >= 0.75) {
-      const margin = Authenticity - 0.75;
-      return { code: "T5", conf: confFromMargin(margin) };
-    }
+  const trackGroups: Record<typeof internalTrack, DetRuleGroup[]> = {
+    Human: ["T5T6", "T"],
+    Hybrid: ["Hx", "T"],
+    AI: ["Ax", "T"],
+  };
 
-    return null;
+  function winnerOf(group: DetRuleGroup) {
+    const passing = evaluated.filter((r) => r.group === group && r.passed);
+    if (group === "T") passing.sort((a, b) => b.prio - a.prio || b.conf - a.conf);
+    return passing[0] ?? null;
   }
 
-  let finalCode: DetCode;
-  let finalConf: number;
-
-  if (internalTrack === "Human") {
-    const t56 = chooseT5T6();
-    if (t56) {
-      finalCode = t56.code;
-      finalConf = t56.conf;
-    } else {
-      const ht = chooseHumanT();
-      finalCode = ht.code;
-      finalConf = ht.conf;
-    }
-  } else if (internalTrack === "Hybrid") {
-    const hx = chooseHx();
-    if (hx) {
-      finalCode = hx.code;
-      finalConf = hx.conf;
-    } else {
-      const ht = chooseHumanT();
-      finalCode = ht.code;
-      finalConf = ht.conf;
-    }
-  } else {
-    const ax = chooseAx();
-    if (ax) {
-      finalCode = ax.code;
-      finalConf = ax.conf;
-    } else {
-      const ht = chooseHumanT();
-      finalCode = ht.code;
-      finalConf = ht.conf;
+  let finalCode: DetCode = "T2";
+  let finalConf = 0.6;
+  let winnerGroup: DetRuleGroup | null = null;
+
+  for (const g of trackGroups[internalTrack]) {
+    const w = winnerOf(g);
+    if (w) {
+      finalCode = w.code;
+      finalConf = w.conf;
+      winnerGroup = g;
+      break;
     }
   }
 
   const reg = TYPE_REGISTRY[finalCode];
   if (!reg) throw new Error("Unknown final_code for registry: " + finalCode);
 
+  const determinationIndicators: CffDeterminationIndicators = { active: [], excluded: [], missing: [] };
+  for (const code of INDICATOR_CODES) {
+    const status = getActiveScore(cff, code, code === "TPS-H") != null ? "Active" : cff.indicators[code]?.status;
+    if (status === "Active") determinationIndicators.active.push(code);
+    else if (status === "Excluded") determinationIndicators.excluded.push(code);
+    else determinationIndicators.missing.push(code);
+  }
+
   const label = finalCode + ". " + reg.type_name;
   const chipLabel = reg.type_name;
 
@@ -1055,8 +1129,64 @@ export function computeFinalDeterminationCff(
         confidence,
         interpretation,
       },
+      determination_indicators: determinationIndicators,
+      ...(opts?.explain ? { final_type_explain: buildExplain() } : {}),
     },
   };
+
+  function buildExplain(): CffFinalTypeExplain {
+    const groups = trackGroups[internalTrack];
+    const r3 = (x: number | null) => (x == null ? null : Math.round(x * 1000) / 1000);
+
+    const candidates: CffCandidateTrace[] = evaluated.map((r) => {
+      const selected = winnerGroup === r.group && r.code === finalCode;
+      let lost_reason: string | undefined;
+
+      if (!selected) {
+        const gi = groups.indexOf(r.group);
+        const wi = winnerGroup ? groups.indexOf(winnerGroup) : groups.length;
+        if (gi < 0) lost_reason = `${r.group} rules are not considered on the ${internalTrack} track`;
+        else if (!r.ready) lost_reason = "required axis missing";
+        else if (!r.passed) lost_reason = "rule not met";
+        else if (gi > wi) lost_reason = `${finalCode} (${winnerGroup}) is checked before ${r.group}`;
+        else if (r.group !== "T") lost_reason = `${finalCode} matched earlier in ${r.group} rule order`;
+        else {
+          const w = evaluated.find((x) => x.group === "T" && x.code === finalCode);
+          lost_reason = w && w.prio > r.prio
+            ? `lower priority than ${finalCode}`
+            : `lower confidence than ${finalCode} at the same priority`;
+        }
+      }
+
+      return {
+        code: r.code,
+        group: r.group,
+        rule: r.rule,
+        evaluated: r.ready,
+        pass: r.passed,
+        margin: r3(r.margin_value),
+        outcome: selected ? "selected" : "lost",
+        lost_reason,
+      };
+    });
+
+    return {
+      track: internalTrack,
+      conservative_lock_ai_hybrid: conservativeLock,
+      t2_mode: t2Mode,
+      track_groups: groups,
+      axes: {
+        MachineScore: r3(MachineScore),
+        Authenticity: r3(Authenticity),
+        Analyticity: r3(Analyticity),
+        Flow: r3(Flow),
+        MetacogRaw: r3(MetacogRaw),
+        Regulation: r3(Regulation),
+      },
+      candidates,
+      winner: { code: finalCode, source: winnerGroup ? "rule" : "default", group: winnerGroup },
+    };
+  }
 }
 
 /*
@@ -1080,7 +1210,17 @@ export function computeFinalDeterminationCff(
 /* =====================
    deriveCff orchestrator
 ===================== */
-export type DeriveCffInput = any;
+export type DeriveCffInput = AnalysisInputV1;
+
+export type DeriveCffOptions = {
+  // indicators the caller wants left out of the final determination
+  excluded_indicators?: IndicatorCode[];
+  // attach cff.final_type_explain (audit trace)
+  explain?: boolean;
+  // analysis policy (defaults: Regulation / locked to the Human track)
+  t2_mode?: "Regulation" | "MetacogRaw";
+  conservative_lock_ai_hybrid?: boolean;
+};
 
 
 function flattenRawFeaturesV1(raw: any): any {
@@ -1114,20 +1254,87 @@ function flattenRawFeaturesV1(raw: any): any {
     loops: Number(l3?.loops ?? 0),
     self_regulation_signals: Number(l3?.self_regulation_signals ?? 0),
 
-    evidence_types: Array.isArray(raw?.evidence_types) ? raw.evidence_types : [],
+    evidence_types: resolveEvidenceTypes(raw?.evidence_types),
   };
 }
 
-export function deriveCff(input: DeriveCffInput): Record<string, any> {
-  const ai = (input && typeof input === "object" && "analysis_input" in input)
-    ? (input as any).analysis_input
-    : input;
+/**
+ * buildCoreAxes
+ * - CFF6 indicators + backend_reserved KPF-Sim / TPS-H -> CoreAxes (observed patterns input)
+ * - TPS-H given as 0..100 is rescaled to 0..1; missing KPF/TPS stay null (HE/MD not computable)
+ * - Analyticity / Flow / MetacogRaw use the missing-safe pair average
+ */
+export function buildCoreAxes(
+  base6: Partial<Record<keyof CFF6, number | null>>,
+  reserved?: { kpf_sim?: number | null; tps_h?: number | null } | null
+): CoreAxes {
+  const v = (x: unknown): number | null => (isFiniteNumber(x) ? clamp01(x) : null);
+
+  const AAS = v(base6.AAS);
+  const CTF = v(base6.CTF);
+  const RMD = v(base6.RMD);
+  const RDX = v(base6.RDX);
+  const EDS = v(base6.EDS);
+  const IFD = v(base6.IFD);
+
+  const kpf = reserved?.kpf_sim;
+  const tps = reserved?.tps_h;
+  const KPF = v(kpf);
+  const TPS = isFiniteNumber(tps) ? v(tps > 1.01 ? tps / 100 : tps) : null;
 
-  const raw = ai?.raw_features ?? ai?.raw ?? ai?.rawFeatures ?? ai?.raw_features_v1 ?? ai?.raw_features_v2;
+  return {
+    AAS,
+    CTF,
+    RMD,
+    RDX,
+    EDS,
+    IFD,
+    KPF,
+    TPS,
+    Analyticity: avg(AAS, EDS),
+    Flow: avg(CTF, RMD),
+    MetacogRaw: avg(RDX, IFD),
+  };
+}
 
-  const flat = raw ? flattenRawFeaturesV1(raw as any) : null;
+/**
+ * buildIndicatorValues
+ * - CFF6 scores + backend_reserved KPF-Sim / TPS-H -> IndicatorValue map
+ * - null / non-finite score -> Missing; caller-excluded codes -> Excluded (score kept)
+ * - TPS-H is passed as given (0..1 or 0..100); the determination normalizes it
+ */
+export function buildIndicatorValues(
+  base6: Partial<Record<keyof CFF6, number | null>>,
+  reserved?: { kpf_sim?: number | null; tps_h?: number | null } | null,
+  excluded: IndicatorCode[] = []
+): Record<IndicatorCode, IndicatorValue> {
+  const scores: Record<IndicatorCode, number | null | undefined> = {
+    AAS: base6.AAS,
+    CTF: base6.CTF,
+    RMD: base6.RMD,
+    RDX: base6.RDX,
+    EDS: base6.EDS,
+    IFD: base6.IFD,
+    "KPF-Sim": reserved?.kpf_sim,
+    "TPS-H": reserved?.tps_h,
+  };
 
-  const base6 = flat ? computeCFF6_v1(flat as any) : { AAS: 0, CTF: 0, RMD: 0, RDX: 0, EDS: 0, IFD: 0 };
+  const out = {} as Record<IndicatorCode, IndicatorValue>;
+  for (const code of INDICATOR_CODES) {
+    const s = scores[code];
+    const score = isFiniteNumber(s) ? s : null;
+    const status: IndicatorStatus = excluded.includes(code) ? "Excluded" : score == null ? "Missing" : "Active";
+    out[code] = { score, status };
+  }
+  return out;
+}
+
+export function deriveCff(input: DeriveCffInput, opts?: DeriveCffOptions): Record<string, any> {
+  const raw = input.raw_features;
+
+  const flat = flattenRawFeaturesV1(raw);
+
+  const base6 = computeCFF6_v1(flat as any);
   const indicators = {
     AAS: round2((base6 as any).AAS ?? 0),
     CTF: round2((base6 as any).CTF ?? 0),
@@ -1146,14 +1353,24 @@ export function deriveCff(input: DeriveCffInput): Record<string, any> {
     ifd: clamp01((base6 as any).IFD ?? 0),
   };
 
-  const cff6 = { cff: { indicators, cfv } };
-  const patterns = flat ? computeObservedPatternsV2(flat as any) : { cff: { observed_patterns: [] } };
+  const cff6 = { cff: { indicators, cfv, evidence_types_credited: flat.evidence_types } };
+
+  // Observed patterns (8 profiles) + primary/secondary labels from CoreAxes
+  const core = buildCoreAxes(base6, raw.backend_reserved);
+  const patterns = {
+    cff: {
+      core_axes: core,
+      observed_patterns: computeObservedPatternsV2(core),
+      ...computeCffPatternOut(core).cff,
+    },
+  };
 
   const finalType = computeFinalDeterminationCff(
-    { indicators: (cff6 as any)?.cff?.indicators ?? {} },
+    { indicators: buildIndicatorValues(base6, raw.backend_reserved, opts?.excluded_indicators) },
     {
-      t2_mode: "Regulation",
-      conservative_lock_ai_hybrid: true
+      t2_mode: opts?.t2_mode ?? "Regulation",
+      conservative_lock_ai_hybrid: opts?.conservative_lock_ai_hybrid ?? true,
+      explain: opts?.explain ?? false,
     }
   );
 
@@ -1,3 +1,6 @@
+import type { AnalysisInputV1 } from "../schema";
+import { getCentroidProfile, getLogisticModel } from "../models";
+import { resolveEvidenceTypes } from "./cff";
 
 /* =====================
    SOURCE: Backend_8_Reasoning Control Summary.ts
@@ -12,11 +15,18 @@
 
    {
      "rc": {
+       "centroid_profile": "default",
        "summary": "...",
        "control_pattern": "Deep Reflective Human",
+       "control_pattern_code": "deep_reflective_human",
        "reliability_band": "HIGH" | "MEDIUM" | "LOW",
        "band_rationale": "...",
-       "pattern_interpretation": "..."
+       "pattern_interpretation": "...",
+       "control_vector": { "A": 0.82, "D": 0.74, "R": 0.77 },
+       "centroid_distances": { "deep_reflective_human": 0.07, ... },
+       "runner_up": { "control_pattern_code": "moderate_reflective_human", "control_pattern": "...", "distance": 0.21 },
+       "margin": 0.14,
+       "borderline": false
      }
    }
 
@@ -52,9 +62,9 @@ export type RCInputRaw = {
   };
 };
 
-type ControlVector = { A: number; D: number; R: number };
+export type ControlVector = { A: number; D: number; R: number };
 
-type ControlPattern =
+export type ControlPattern =
   | "deep_reflective_human"
   | "moderate_reflective_human"
   | "moderate_procedural_human"
@@ -65,9 +75,9 @@ type ControlPattern =
   | "moderate_procedural_ai"
   | "deep_procedural_ai";
 
-type ReliabilityBand = "HIGH" | "MEDIUM" | "LOW";
+export type ReliabilityBand = "HIGH" | "MEDIUM" | "LOW";
 
-type ControlPatternMeta = {
+export type ControlPatternMeta = {
   control_pattern: ControlPattern;
   pattern_description: string;
   pattern_interpretation: string;
@@ -75,13 +85,25 @@ type ControlPatternMeta = {
 };
 
 export type RCOut = {
+  centroid_profile: string; // RcCentroidProfile.name used for inference
   summary: string;
   control_pattern: string; // Human-readable label
+  control_pattern_code: ControlPattern; // machine-readable (e.g. "deep_reflective_human")
   reliability_band: ReliabilityBand;
   band_rationale: string;
   pattern_interpretation: string;
+
+  // geometry (Mix Agency chart / borderline review)
+  control_vector: ControlVector; // A,D,R in 0..1
+  centroid_distances: Record<ControlPattern, number>;
+  runner_up: { control_pattern_code: ControlPattern; control_pattern: string; distance: number };
+  margin: number; // runner-up distance - best distance
+  borderline: boolean; // margin < profile.borderline_margin
 };
 
+// nearest and runner-up centroids closer than this are flagged for review
+export const BORDERLINE_MARGIN = 0.05;
+
 function isFiniteNumber(x: unknown): x is number {
   return typeof x === "number" && isFinite(x);
 }
@@ -284,9 +306,35 @@ function euclidean(a: ControlVector, b: ControlVector): number {
   return Math.sqrt(dA * dA + dD * dD + dR * dR);
 }
 
-function bandFromDistance(d: number): ReliabilityBand {
-  if (d < 0.12) return "HIGH";
-  if (d < 0.22) return "MEDIUM";
+export const CONTROL_PATTERNS = Object.keys(CENTROIDS) as ControlPattern[];
+
+// distance < high -> HIGH, < medium -> MEDIUM, else LOW
+export type RcBandCutoffs = { high: number; medium: number };
+
+/**
+ * Named centroid set + band cutoffs (+ optional pattern text overrides).
+ * Extra profiles are loaded from lib/models/rc/centroid_profiles.json (lib/server/models.ts).
+ */
+export type RcCentroidProfile = {
+  name: string;
+  description?: string;
+  centroids: Record<ControlPattern, ControlVector>;
+  band_cutoffs: RcBandCutoffs;
+  borderline_margin: number;
+  pattern_meta?: Partial<Record<ControlPattern, Partial<Omit<ControlPatternMeta, "control_pattern">>>>;
+};
+
+export const BUILTIN_CENTROID_PROFILE: RcCentroidProfile = {
+  name: "default",
+  description: "Built-in centroids and cutoffs (0.12 / 0.22).",
+  centroids: CENTROIDS,
+  band_cutoffs: { high: 0.12, medium: 0.22 },
+  borderline_margin: BORDERLINE_MARGIN,
+};
+
+function bandFromDistance(d: number, cutoffs: RcBandCutoffs = BUILTIN_CENTROID_PROFILE.band_cutoffs): ReliabilityBand {
+  if (d < cutoffs.high) return "HIGH";
+  if (d < cutoffs.medium) return "MEDIUM";
   return "LOW";
 }
 
@@ -301,33 +349,48 @@ function formatControlPatternLabel(p: ControlPattern): string {
    3) RC inference (nearest centroid)
 ========================= */
 
-function inferRCFromADR(vIn: ControlVector): RCOut {
+function inferRCFromADR(vIn: ControlVector, profile: RcCentroidProfile = BUILTIN_CENTROID_PROFILE): RCOut {
   const v: ControlVector = {
     A: clamp01(isFiniteNumber(vIn.A) ? vIn.A : 0.5),
     D: clamp01(isFiniteNumber(vIn.D) ? vIn.D : 0.5),
     R: clamp01(isFiniteNumber(vIn.R) ? vIn.R : 0.5),
   };
 
-  let best: ControlPattern = "moderate_reflective_human";
-  let bestDist = Number.POSITIVE_INFINITY;
+  const r3 = (x: number) => Math.round(x * 1000) / 1000;
 
-  (Object.keys(CENTROIDS) as ControlPattern[]).forEach((p) => {
-    const d = euclidean(v, CENTROIDS[p]);
-    if (d < bestDist) {
-      bestDist = d;
-      best = p;
-    }
-  });
+  // ties keep CENTROIDS key order (stable sort)
+  const ranked = CONTROL_PATTERNS
+    .map((p) => ({ p, d: euclidean(v, profile.centroids[p]) }))
+    .sort((a, b) => a.d - b.d);
+
+  const best = ranked[0].p;
+  const bestDist = ranked[0].d;
+  const second = ranked[1];
+
+  const meta = { ...CONTROL_PATTERN_META[best], ...profile.pattern_meta?.[best] };
+  const rb = bandFromDistance(bestDist, profile.band_cutoffs);
+  const margin = second.d - bestDist;
 
-  const meta = CONTROL_PATTERN_META[best];
-  const rb = bandFromDistance(bestDist);
+  const centroid_distances = {} as Record<ControlPattern, number>;
+  for (const { p, d } of ranked) centroid_distances[p] = r3(d);
 
   return {
+    centroid_profile: profile.name,
     summary: meta.pattern_description,
     control_pattern: formatControlPatternLabel(best),
+    control_pattern_code: best,
     reliability_band: rb,
     band_rationale: meta.band_rationale,
     pattern_interpretation: meta.pattern_interpretation,
+    control_vector: { A: r3(v.A), D: r3(v.D), R: r3(v.R) },
+    centroid_distances,
+    runner_up: {
+      control_pattern_code: second.p,
+      control_pattern: formatControlPatternLabel(second.p),
+      distance: r3(second.d),
+    },
+    margin: r3(margin),
+    borderline: margin < profile.borderline_margin,
   };
 }
 
@@ -337,9 +400,9 @@ function inferRCFromADR(vIn: ControlVector): RCOut {
    - Returns only final JSON
 ========================= */
 
-export function computeRCFromRaw(raw: RCInputRaw): { rc: RCOut } {
+export function computeRCFromRaw(raw: RCInputRaw, profile?: RcCentroidProfile): { rc: RCOut } {
   const adr = computeADR_min(raw);
-  const rc = inferRCFromADR(adr);
+  const rc = inferRCFromADR(adr, profile);
   return { rc };
 }
 
@@ -381,10 +444,56 @@ export interface SignalTemplate {
   group: SignalGroup;
   /** smaller = higher priority */
   priority: number;
+  /** activation rule evaluated against SignalFeatures */
+  rule: SignalRule;
+}
+
+/* ---------- Declarative activation rules ---------- */
+
+export type SignalFeature =
+  | "units"
+  | "claims"
+  | "evidence"
+  | "warrants"
+  | "counterpoints"
+  | "refutations"
+  | "transitions"
+  | "revisions"
+  | "hedges"
+  | "loops"
+  | "intent_markers"
+  | "drift_segments"
+  | "self_regulation_signals"
+  | "belief_change" // 0/1
+  | "transition_ok_ratio" // transition_ok / transitions
+  | "reasons_per_claim"
+  | "evidence_per_claim"
+  | "evidence_types" // distinct credited types
+  | "evidence_unit_coverage" // share of units with evidence (null without per_unit.evidence)
+  | "adjacency_links_per_unit"
+  | "structural_variance" // structural control signals, 0..1
+  | "human_rhythm_index"; // structural control signals, 0..1
+
+export type SignalFeatures = Record<SignalFeature, number | null>;
+
+export interface SignalCondition {
+  feature: SignalFeature;
+  op: ">=" | ">" | "<=" | "<" | "==";
+  value: number;
+}
+
+/** all: every condition holds; any: at least one holds (both may be given). */
+export interface SignalRule {
+  all?: SignalCondition[];
+  any?: SignalCondition[];
+}
+
+function c(feature: SignalFeature, op: SignalCondition["op"], value: number): SignalCondition {
+  return { feature, op, value };
 }
 
 export interface SelectObservedSignalsOptions {
-  /** Evidence lines to select. Default 4. */
+  /** Evidence lines to select. Default 4, further capped by the reliability band. */
   displayLines?: number;
   /**
    * If actives are insufficient, do NOT invent lines.
@@ -397,6 +506,8 @@ export interface SelectObservedSignalsOptions {
 export interface SelectObservedSignalsResult {
   /** Evidence lines (max 4) */
   lines: string[];
+  /** Template ids of the lines, same order */
+  ids: string[];
 }
 
 export type RcLineIndex = "1" | "2" | "3" | "4";
@@ -416,24 +527,28 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "Revision activity occurs at semantic decision boundaries.",
       group: "REVISION",
       priority: 10,
+      rule: { all: [c("revisions", ">=", 1), c("transitions", ">=", 1)] },
     },
     S2: {
       id: "S2",
       text: "Argument order adjustments correspond to logical correction.",
       group: "REVISION",
       priority: 20,
+      rule: { all: [c("revisions", ">=", 1), c("transition_ok_ratio", ">=", 0.6)] },
     },
     S3: {
       id: "S3",
       text: "Claim scope or conditions are refined through explicit revision.",
       group: "REVISION",
       priority: 30,
+      rule: { all: [c("revisions", ">=", 1), c("hedges", ">=", 1)] },
     },
     S4: {
       id: "S4",
       text: "Prior assumptions are explicitly re-evaluated during reasoning progression.",
       group: "REVISION",
       priority: 40,
+      rule: { any: [c("belief_change", "==", 1), c("self_regulation_signals", ">=", 2)] },
     },
 
     // B) Transition / Consistency (S5–S7)
@@ -442,18 +557,21 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "Consistency checks appear across structural transitions.",
       group: "TRANSITION",
       priority: 10,
+      rule: { all: [c("transitions", ">=", 2), c("transition_ok_ratio", ">=", 0.8)] },
     },
     S6: {
       id: "S6",
       text: "Logical transitions between claims and supporting reasons are explicitly maintained.",
       group: "TRANSITION",
       priority: 20,
+      rule: { all: [c("reasons_per_claim", ">=", 1), c("transition_ok_ratio", ">=", 0.6)] },
     },
     S7: {
       id: "S7",
       text: "Structural continuity is preserved across multi-step reasoning transitions.",
       group: "TRANSITION",
       priority: 30,
+      rule: { all: [c("units", ">=", 3), c("adjacency_links_per_unit", ">=", 0.6)] },
     },
 
     // C) Counter-evaluation / Verification (S8–S10)
@@ -462,18 +580,21 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "Alternative viewpoints are introduced and structurally examined.",
       group: "COUNTER",
       priority: 10,
+      rule: { all: [c("counterpoints", ">=", 1)] },
     },
     S9: {
       id: "S9",
       text: "Counter-arguments are explicitly addressed through refutational reasoning.",
       group: "COUNTER",
       priority: 20,
+      rule: { all: [c("refutations", ">=", 1)] },
     },
     S10: {
       id: "S10",
       text: "Evidence is evaluated against potential contradictions rather than accepted at face value.",
       group: "COUNTER",
       priority: 30,
+      rule: { all: [c("evidence", ">=", 1), c("counterpoints", ">=", 1), c("refutations", ">=", 1)] },
     },
 
     // D) Evidence Handling (S11–S13)
@@ -482,18 +603,21 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "Multiple evidence types are integrated within the reasoning structure.",
       group: "EVIDENCE",
       priority: 10,
+      rule: { all: [c("evidence_types", ">=", 2)] },
     },
     S12: {
       id: "S12",
       text: "Evidence placement aligns with the logical role it serves within the argument.",
       group: "EVIDENCE",
       priority: 20,
+      rule: { all: [c("evidence_per_claim", ">=", 0.5), c("warrants", ">=", 1)] },
     },
     S13: {
       id: "S13",
       text: "Supporting evidence is selectively introduced at structurally relevant points.",
       group: "EVIDENCE",
       priority: 30,
+      rule: { all: [c("evidence", ">=", 1), c("evidence_unit_coverage", "<=", 0.75)] },
     },
 
     // E) Non-Automation / Loop Control (S14–S16)
@@ -502,18 +626,21 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "No sustained repetitive propagation is observed across reasoning segments.",
       group: "NONAUTO",
       priority: 10,
+      rule: { all: [c("units", ">=", 2), c("loops", "==", 0)] },
     },
     S15: {
       id: "S15",
       text: "Structural variation is maintained without reliance on template-like repetition.",
       group: "NONAUTO",
       priority: 20,
+      rule: { all: [c("structural_variance", ">=", 0.3)] },
     },
     S16: {
       id: "S16",
       text: "Reasoning progression avoids uniform continuation patterns across sections.",
       group: "NONAUTO",
       priority: 30,
+      rule: { all: [c("human_rhythm_index", ">=", 0.4)] },
     },
 
     // F) Structural Specificity (S17–S18)
@@ -522,31 +649,120 @@ export function buildSignalLibraryV1_S1toS18(): Record<string, SignalTemplate> {
       text: "Structural behavior reflects document-specific reasoning rather than generic composition patterns.",
       group: "SPECIFICITY",
       priority: 10,
+      rule: { all: [c("intent_markers", ">=", 1), c("drift_segments", "==", 0)] },
     },
     S18: {
       id: "S18",
       text: "Observed structural signals vary across sections in response to local reasoning demands.",
       group: "SPECIFICITY",
       priority: 20,
+      rule: { all: [c("units", ">=", 4), c("structural_variance", ">=", 0.5)] },
     },
   };
 }
 
+/**
+ * computeSignalFeatures
+ * - Feature map the S1–S18 rules are evaluated against
+ * - Ratios use max(1, denominator); per-unit derived features are null when the series is absent
+ */
+export function computeSignalFeatures(payload: RawFeaturesPayload): SignalFeatures {
+  const rf = payload.raw_features;
+  const U = Math.max(1, Math.floor(n0(rf.layer_0.units)));
+  const claims = n0(rf.layer_0.claims);
+  const evidence = n0(rf.layer_0.evidence);
+  const transitions = n0(rf.layer_2.transitions);
+
+  const evPerUnit = rf.layer_0.per_unit?.evidence;
+  const coverage =
+    Array.isArray(evPerUnit) && evPerUnit.length === U
+      ? evPerUnit.filter((x) => n0(x) > 0).length / U
+      : null;
+
+  const scs = computeStructuralControlSignalsRc(payload).rc.structural_control_signals;
+
+  return {
+    units: U,
+    claims,
+    evidence,
+    warrants: n0(rf.layer_1.warrants),
+    counterpoints: n0(rf.layer_1.counterpoints),
+    refutations: n0(rf.layer_1.refutations),
+    transitions,
+    revisions: n0(rf.layer_2.revisions),
+    hedges: n0(rf.layer_3.hedges),
+    loops: n0(rf.layer_3.loops),
+    intent_markers: n0(rf.layer_3.intent_markers),
+    drift_segments: n0(rf.layer_3.drift_segments),
+    self_regulation_signals: n0(rf.layer_3.self_regulation_signals),
+    belief_change: rf.layer_2.belief_change ? 1 : 0,
+    transition_ok_ratio: transitions > 0 ? n0(rf.layer_2.transition_ok) / transitions : null,
+    reasons_per_claim: safeDiv(n0(rf.layer_0.reasons), claims),
+    evidence_per_claim: safeDiv(evidence, claims),
+    evidence_types: resolveEvidenceTypes(rf.evidence_types).length,
+    evidence_unit_coverage: coverage,
+    adjacency_links_per_unit: safeDiv(n0(rf.adjacency_links), U),
+    structural_variance: scs.structural_variance,
+    human_rhythm_index: scs.human_rhythm_index,
+  };
+}
+
+function holds(cond: SignalCondition, f: SignalFeatures): boolean {
+  const x = f[cond.feature];
+  if (x == null) return false;
+  switch (cond.op) {
+    case ">=": return x >= cond.value;
+    case ">": return x > cond.value;
+    case "<=": return x <= cond.value;
+    case "<": return x < cond.value;
+    case "==": return x === cond.value;
+  }
+}
+
+export function describeSignalRule(rule: SignalRule): string {
+  const fmt = (cs: SignalCondition[]) => cs.map((x) => `${x.feature} ${x.op} ${x.value}`);
+  const parts: string[] = [];
+  if (rule.all?.length) parts.push(fmt(rule.all).join(" AND "));
+  if (rule.any?.length) parts.push(rule.any.length > 1 ? `(${fmt(rule.any).join(" OR ")})` : fmt(rule.any)[0]);
+  return parts.join(" AND ");
+}
+
+export interface SignalActivation {
+  id: string;
+  rule: string;
+}
+
+/** Evaluate every library rule; returns activations in library order (S1..S18). */
+export function evaluateSignalRules(features: SignalFeatures): SignalActivation[] {
+  const lib = buildSignalLibraryV1_S1toS18();
+  const out: SignalActivation[] = [];
+  for (const t of Object.values(lib)) {
+    const allOk = (t.rule.all ?? []).every((x) => holds(x, features));
+    const anyOk = !t.rule.any?.length || t.rule.any.some((x) => holds(x, features));
+    if (allOk && anyOk) out.push({ id: t.id, rule: describeSignalRule(t.rule) });
+  }
+  return out;
+}
+
 /**
  * Select representative evidence lines for "Observed Structural Signals".
  * Inputs:
  * - activeIds: template ids that are active (rule-triggered by features)
- * - band: HIGH / MEDIUM / LOW (현재 selection 규칙 자체는 band-independent로 유지 가능)
+ * - band: HIGH / MEDIUM / LOW reliability; caps the line count (BAND_DISPLAY_LINES)
+ *   so a low-reliability result does not present as much evidence as a high one
  *
  * Output:
- * - lines: evidence lines (max displayLines, default 4)
+ * - lines: evidence lines (max min(displayLines, BAND_DISPLAY_LINES[band]))
  */
+export const BAND_DISPLAY_LINES: Record<Band, number> = { HIGH: 4, MEDIUM: 3, LOW: 2 };
+
 export function selectObservedSignals(
   activeIds: ReadonlySet<string>,
   band: Band,
   opts: SelectObservedSignalsOptions = {}
 ): SelectObservedSignalsResult {
-  const { displayLines = 4, insufficientPolicy = "shorten" } = opts;
+  const { insufficientPolicy = "shorten" } = opts;
+  const displayLines = Math.min(opts.displayLines ?? 4, BAND_DISPLAY_LINES[band] ?? 4);
 
   const lib = buildSignalLibraryV1_S1toS18();
 
@@ -604,17 +820,15 @@ export function selectObservedSignals(
     }
   }
 
-  let lines = selected.map((t) => t.text).slice(0, displayLines);
+  const picked = selected.slice(0, displayLines);
+  let lines = picked.map((t) => t.text);
 
   // Insufficient candidates policy (현재는 shorten만 허용)
   if (lines.length < displayLines && insufficientPolicy === "shorten") {
     // do nothing: return fewer lines
   }
 
-  // band는 현재 selection 규칙에 직접 영향 없지만, 외부에서 필요하면 audit/log로 쓸 수 있어
-  void band;
-
-  return { lines };
+  return { lines, ids: picked.map((t) => t.id) };
 }
 
 /**
@@ -669,12 +883,15 @@ export type CFV = Record<CFVKey, number>; // 0..1 normalized
 /* ---------- Model ---------- */
 
 export interface LogisticModel {
+  version?: string; // registry version (lib/server/models.ts)
   beta0: number;
   betas: Partial<Record<CFVKey, number>>;
   z_clip?: number;
 }
 
+// Neutral fallback (p_human = 0.5). Calibrated models come from the registry.
 export const DEFAULT_LOGISTIC_MODEL: LogisticModel = {
+  version: "neutral",
   beta0: 0,
   betas: {},
   z_clip: 20,
@@ -686,6 +903,7 @@ export const DEFAULT_LOGISTIC_MODEL: LogisticModel = {
 export interface RcInferenceInput {
   cfv: CFV;
   model: LogisticModel;
+  imputed?: CFVKey[]; // CFV keys filled from CFV_IMPUTE_VALUES (their Hybrid gates are skipped)
 }
 
 export interface RcDistributionOutput {
@@ -696,6 +914,8 @@ export interface RcDistributionOutput {
       AI: string;
       final_determination: Determination;
       determination_sentence: string;
+      p_human: number; // 0..1, logistic output
+      model_version: string;
     };
   };
 }
@@ -803,9 +1023,13 @@ export function computePHumanFromCFV(
    Determination rule
    ============================================================ */
 
+// Hybrid gates on rdx / hi / aas / eds apply only to observed inputs: an imputed value
+// (CFV_IMPUTE_VALUES, 0.5) sits on the failing side of every gate, so checking it would
+// let a missing input rule Hybrid out instead of the evidence.
 export function determineLabelFromProbs(
   cfv: CFV,
-  pHuman01: number
+  pHuman01: number,
+  imputed: readonly CFVKey[] = []
 ): Determination {
 
   const pH = clamp01(pHuman01);
@@ -818,13 +1042,14 @@ export function determineLabelFromProbs(
   else band = "AI";
 
   if (band === "Hybrid") {
+    const gate = (k: CFVKey, ok: boolean) => imputed.includes(k) || ok;
     const hybridCond =
       pH >= 0.35 &&
       pA >= 0.35 &&
-      clamp01(cfv.rdx) < TH.rdx_low &&
-      clamp01(cfv.hi) >= TH.hi_mid &&
-      clamp01(cfv.aas) >= TH.aas_human_like &&
-      clamp01(cfv.eds) >= TH.eds_ai_like;
+      gate("rdx", clamp01(cfv.rdx) < TH.rdx_low) &&
+      gate("hi", clamp01(cfv.hi) >= TH.hi_mid) &&
+      gate("aas", clamp01(cfv.aas) >= TH.aas_human_like) &&
+      gate("eds", clamp01(cfv.eds) >= TH.eds_ai_like);
 
     if (!hybridCond) {
       return pH >= pA ? "Human" : "AI";
@@ -848,7 +1073,7 @@ export function buildReasoningControlDistribution(
   const pH = computePHumanFromCFV(cfv, input.model);
   const pA = clamp01(1 - pH);
 
-  const final = determineLabelFromProbs(cfv, pH);
+  const final = determineLabelFromProbs(cfv, pH, input.imputed);
 
   let human = 0;
   let hybrid = 0;
@@ -880,6 +1105,8 @@ export function buildReasoningControlDistribution(
         AI: pct(n.c),
         final_determination: final,
         determination_sentence: getDeterminationSentence(final),
+        p_human: Math.round(pH * 1000) / 1000,
+        model_version: input.model.version ?? "unversioned",
       },
     },
   };
@@ -1146,6 +1373,11 @@ function computeStructuralVariance(raw: AgencyRaw, SV_MAX = 0.35): number {
    Weights: len 0.6, transition 0.2, revision 0.2 (v1.0)
 */
 function computeHumanRhythmIndex(raw: AgencyRaw, CV_REF = 0.6): number {
+  return computeHumanRhythmIndexOrNull(raw, CV_REF) ?? 0;
+}
+
+/** null when there is no rhythm data (unit_lengths < 2 and < 2 event gaps). */
+function computeHumanRhythmIndexOrNull(raw: AgencyRaw, CV_REF = 0.6): number | null {
   const cvs: Array<{ v: number; w: number }> = [];
 
   if (raw.unit_lengths && raw.unit_lengths.length >= 2) {
@@ -1162,7 +1394,7 @@ function computeHumanRhythmIndex(raw: AgencyRaw, CV_REF = 0.6): number {
   const rDiffs = diffsSortedIndices(rIdx);
   if (rDiffs.length >= 2) cvs.push({ v: cv(rDiffs), w: 0.2 });
 
-  if (cvs.length === 0) return 0;
+  if (cvs.length === 0) return null;
 
   let num = 0;
   let den = 0;
@@ -1349,7 +1581,7 @@ export type RawFeaturesPayload = {
       loops: number;
       self_regulation_signals: number;
     };
-    evidence_types: Record<string, number>;
+    evidence_types: Record<string, number> | string[];
     adjacency_links: number;
     backend_reserved: {
       kpf_sim: number | null;
@@ -1447,35 +1679,116 @@ export function computeStructuralControlSignalsRc(payload: RawFeaturesPayload):
 }
 
 
+/* =====================
+   CFV assembly for the Reasoning Control Distribution
+   - aas..ifd : CFF cfv (deriveCff output, 0..1)
+   - hi       : human_rhythm_index (structural control signals via the RawFeaturesPayload adapter)
+   - tps_hist : backend_reserved.tps_h (0..100 rescaled to 0..1)
+   - Anything unavailable is imputed per CFV_IMPUTE_VALUES and listed in `imputed`:
+     0.5 (neutral) for the CFF / rhythm signals; 0 for tps_hist, so a missing TPS
+     history drops out of the logit instead of adding beta * 0.5. Neither the local
+     extractor nor the fixture supply tps_h, so this is the common case.
+   - Imputed keys are passed on to determineLabelFromProbs, which skips their Hybrid
+     gates (e.g. an imputed hi = 0.5 would otherwise always fail hi_mid = 0.55).
+   - scripts/train-rc-model.mjs imputes with the same table; keep them in sync.
+===================== */
+export const CFV_IMPUTE_VALUES: Record<CFVKey, number> = {
+  aas: 0.5,
+  ctf: 0.5,
+  rmd: 0.5,
+  rdx: 0.5,
+  eds: 0.5,
+  hi: 0.5,
+  tps_hist: 0,
+  ifd: 0.5,
+};
+
+export type RcCfvInputs = {
+  cfv: CFV;
+  imputed: CFVKey[];
+};
+
+export function buildRcCfv(
+  payload: RawFeaturesPayload,
+  cffCfv?: Partial<Record<CFVKey, number>> | null
+): RcCfvInputs {
+  const imputed: CFVKey[] = [];
+  const take = (k: CFVKey, v: unknown): number => {
+    if (isFiniteNumber(v)) return clamp01(v);
+    imputed.push(k);
+    return CFV_IMPUTE_VALUES[k];
+  };
+
+  const hi = computeHumanRhythmIndexOrNull(toAgencyRawFromRawFeatures(payload));
+  const tps = payload.raw_features?.backend_reserved?.tps_h;
+
+  const cfv: CFV = {
+    aas: take("aas", cffCfv?.aas),
+    ctf: take("ctf", cffCfv?.ctf),
+    rmd: take("rmd", cffCfv?.rmd),
+    rdx: take("rdx", cffCfv?.rdx),
+    eds: take("eds", cffCfv?.eds),
+    hi: take("hi", hi),
+    tps_hist: take("tps_hist", isFiniteNumber(tps) ? (tps > 1.01 ? tps / 100 : tps) : null),
+    ifd: take("ifd", cffCfv?.ifd),
+  };
+  return { cfv, imputed };
+}
+
 /* =====================
    deriveRc orchestrator
 ===================== */
-export type DeriveRcInput = any;
+export type DeriveRcInput = AnalysisInputV1;
 
-export function deriveRc(input: DeriveRcInput): Record<string, any> {
-  const ai = (input && typeof input === "object" && "analysis_input" in input)
-    ? (input as any).analysis_input
-    : input;
+export type DeriveRcOptions = {
+  // CFF block produced by deriveCff (cfv feeds the distribution)
+  cff?: Record<string, any>;
+  // centroid profile name (policy.rc.centroid_profile); default "default"
+  centroid_profile?: string;
+};
 
-  const raw = ai?.raw_features ?? ai?.raw ?? ai?.rawFeatures ?? ai?.raw_features_v1 ?? ai?.raw_features_v2;
+export function deriveRc(input: DeriveRcInput, opts?: DeriveRcOptions): Record<string, any> {
+  const raw = input.raw_features;
+  const payload = { raw_features: raw } as RawFeaturesPayload;
 
-  const rcSummary = raw ? computeRCFromRaw(raw as any) : { rc: {} };
+  const rcSummary = computeRCFromRaw(raw as any, getCentroidProfile(opts?.centroid_profile));
 
-  // Observed Structural Signals library + selection (if rcSummary has signals)
-  // buildSignalLibrary returns library; computeRCFromRaw may already output rc.observed_structural_signals.
-  const lib = buildSignalLibraryV1_S1toS18();
-  const observed = (rcSummary as any)?.rc?.observed_structural_signals;
-  const observedBlock = observed ? { rc: { observed_structural_signals: observed, observed_structural_signals_library: lib } } : { rc: { observed_structural_signals_library: lib } };
-
-  // Reasoning Control Distribution (p_human etc) from CFV if present
-  const cfv = ai?.cff?.cfv ?? ai?.cff?.indicators ?? ai?.cff?.indicators_vector;
-  let dist: any = { rc: {} };
-  try {
-    if (cfv) dist = buildReasoningControlDistribution({ cfv: cfv as any, model: DEFAULT_LOGISTIC_MODEL });
-  } catch { dist = { rc: {} }; }
-
-  // Agency indicators (structural_control_signals)
-  const agency = raw ? computeAgencyIndicators(raw as any) : { rc: { structural_control_signals: {} } };
+  // Observed Structural Signals: S1–S18 rule activation -> selection with the RC reliability band
+  const activations = evaluateSignalRules(computeSignalFeatures(payload));
+  const band = rcSummary.rc.reliability_band;
+  const selection = selectObservedSignals(new Set(activations.map((x) => x.id)), band);
+  const ruleOf = new Map(activations.map((x) => [x.id, x.rule]));
+  const observedBlock = deepMergeAll(toRcJson(selection), {
+    rc: {
+      observed_structural_signals_library: buildSignalLibraryV1_S1toS18(),
+      observed_structural_signals_trace: {
+        band,
+        display_lines: BAND_DISPLAY_LINES[band],
+        active: activations,
+        selected: selection.ids.map((id, i) => ({ id, rule: ruleOf.get(id), text: selection.lines[i] })),
+      },
+    },
+  });
+
+  // Reasoning Control Distribution (p_human etc) from CFF cfv + hi + tps_hist
+  const model = getLogisticModel();
+  const cfvInputs = buildRcCfv(payload, opts?.cff?.cfv);
+  const dist = deepMergeAll(buildReasoningControlDistribution({ ...cfvInputs, model }), {
+    rc: {
+      reasoning_control_distribution: {
+        cfv_inputs: {
+          values: Object.fromEntries(
+            Object.entries(cfvInputs.cfv).map(([k, v]) => [k, Math.round(v * 1000) / 1000])
+          ),
+          imputed: cfvInputs.imputed,
+        },
+      },
+    },
+  });
+
+  // Structural control signals (agency indicators) via the RawFeaturesPayload adapter.
+  // Misaligned per-unit arrays never get here: validateAnalysisInput rejects them with 422.
+  const agency = computeStructuralControlSignalsRc(payload);
 
   return deepMergeAll(rcSummary, observedBlock, dist, agency);
 
@@ -1,3 +1,4 @@
+import type { AnalysisInputV1 } from "../schema";
 
 /* =====================
    SOURCE: Backend_12_Cognitive Style Summary.ts
@@ -45,6 +46,9 @@ export type RfsJson = {
   rfs: {
     primary_pattern: string;
     representative_phrase: string;
+    style_id: StyleId;
+    structure_score: number;   // 0..1
+    exploration_score: number; // 0..1
   };
 };
 
@@ -150,6 +154,9 @@ export function computeRfs9Type(inputs: StyleInputs): RfsJson {
     rfs: {
       primary_pattern: DEFAULT_PRIMARY_PATTERN[styleId],
       representative_phrase: PHRASE_MAP[styleId],
+      style_id: styleId,
+      structure_score: Math.round(structure * 1000) / 1000,
+      exploration_score: Math.round(exploration * 1000) / 1000,
     },
   };
 }
@@ -242,7 +249,8 @@ export function computeRfsFromPayload(payload: CognitiveRoleFitPayload): RfsJson
    - Convert to percent by round(score * 100).
 
    IMPORTANT:
-   - This file expects you to provide the roleConfigs array externally (DB or static list).
+   - This file expects you to provide the roleConfigs array externally
+     (default catalog: lib/config/role_configs.json via lib/server/roles.ts).
    - JOB_GROUPS is the canonical list of group -> jobs used for role list rendering.
    ========================================================= */
 
@@ -255,7 +263,7 @@ export type NeuprintAxes = {
 
 export type RoleConfig = {
   role_code: string;
-  job_id: string;      // must exist in JOB_INDEX
+  job_id: string;      // must exist in the active JobCatalog (default: JOB_INDEX)
   onet_code: string;
   oecd_core_skills: string[];
   neuprint_axes_weights: NeuprintAxes; // must sum to 1.0
@@ -297,6 +305,19 @@ export type RfsGroupTop3Json = {
     pattern_interpretation: string; // role-aligned narrative (Top1 group anchored)
   };
 };
+/** Role fit input or RoleConfig rejected by the scorer (routes map it to `status`). */
+export class RoleFitError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = "RoleFitError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
 function isFiniteNumber(x: unknown): x is number {
   return typeof x === "number" && isFinite(x);
 }
@@ -305,20 +326,24 @@ function isFinite01(x: number): boolean {
   return isFiniteNumber(x) && x >= 0 && x <= 1;
 }
 
-function assertAxes01(axes: NeuprintAxes, label: string): void {
+function assertAxes01(axes: NeuprintAxes, label: string, code = "invalid_axes"): void {
   const keys: (keyof NeuprintAxes)[] = ["analyticity", "flow", "metacognition", "authenticity"];
   for (const k of keys) {
     const v = axes[k];
-    if (!isFinite01(v)) throw new Error(`${label}.${String(k)} must be in [0,1]. Got: ${v}`);
+    if (!isFinite01(v)) throw new RoleFitError(code, `${label}.${String(k)} must be in [0,1]. Got: ${v}`, 422);
   }
 }
 
-function validateWeights(weights: NeuprintAxes): void {
-  assertAxes01(weights, "neuprint_axes_weights");
+export function validateWeights(weights: NeuprintAxes): void {
+  assertAxes01(weights, "neuprint_axes_weights", "invalid_role_config");
   const sum = weights.analyticity + weights.flow + weights.metacognition + weights.authenticity;
   const tol = 1e-6;
   if (Math.abs(sum - 1.0) > tol) {
-    throw new Error(`neuprint_axes_weights must sum to 1.0. Got sum=${sum.toFixed(6)}`);
+    throw new RoleFitError(
+      "invalid_role_config",
+      `neuprint_axes_weights must sum to 1.0. Got sum=${sum.toFixed(6)}`,
+      422
+    );
   }
 }
 
@@ -364,13 +389,17 @@ function axisLabel(k: keyof NeuprintAxes): string {
   return "authentic intent signaling";
 }
 
-const GROUP_ROLE_TEMPLATES: Record<number, (ctx: {
+export type GroupTemplateContext = {
   group_name: string;
   percent: number;
   recommended_role: string;
   axes: NeuprintAxes;
   arc_level: number;
-}) => string> = {
+};
+
+export type GroupTemplate = (ctx: GroupTemplateContext) => string;
+
+const GROUP_ROLE_TEMPLATES: Record<number, GroupTemplate> = {
   1: () =>
     "Strong in conceptual structuring and strategic direction setting, this profile is well suited for designing large-scale frameworks and guiding decision alignment across complex constraints.",
   2: () =>
@@ -406,9 +435,10 @@ const GROUP_ROLE_TEMPLATES: Record<number, (ctx: {
 
 function buildRoleFitInterpretation(
   top1: { group_id: number; group_name: string; percent: number; recommended_role: string },
-  input: RoleFitInput
+  input: RoleFitInput,
+  templates: Record<number, GroupTemplate>
 ): string {
-  const fn = GROUP_ROLE_TEMPLATES[top1.group_id];
+  const fn = templates[top1.group_id];
   if (!fn) {
     return `Role fit is most aligned with ${top1.group_name}, with strongest match for ${top1.recommended_role}.`;
   }
@@ -541,6 +571,25 @@ export const JOB_INDEX: Record<string, JobGroup> = (() => {
   return map;
 })();
 
+/* ---------------------------------------------------------
+   Job catalog (groups + job index + interpretation templates)
+   - Built-in: the 15 groups above.
+   - Tenants may extend or replace it (lib/server/roles.ts); role fit
+     resolves job_ids and templates against whichever catalog is passed in.
+   --------------------------------------------------------- */
+
+export type JobCatalog = {
+  groups: JobGroup[];
+  index: Record<string, JobGroup>; // by job_id
+  templates: Record<number, GroupTemplate>; // by group_id
+};
+
+export const BUILTIN_JOB_CATALOG: JobCatalog = {
+  groups: JOB_GROUPS,
+  index: JOB_INDEX,
+  templates: GROUP_ROLE_TEMPLATES,
+};
+
 function computeArcBoost(userArc: number, minArc: number): number {
   if (!isFiniteNumber(userArc) || !isFiniteNumber(minArc)) return 0;
   if (userArc < minArc) return 0;
@@ -580,8 +629,8 @@ function scoreRoleFit01(input: RoleFitInput, cfg: RoleConfig): number {
   return clamp01(base + boost);
 }
 
-function rolesInGroup(groupName: string): string[] {
-  return JOB_GROUPS.filter((j) => j.group_name === groupName).map((j) => j.job_name);
+function rolesInGroup(catalog: JobCatalog, groupName: string): string[] {
+  return catalog.groups.filter((j) => j.group_name === groupName).map((j) => j.job_name);
 }
 
 /**
@@ -594,14 +643,17 @@ function rolesInGroup(groupName: string): string[] {
 export function computeRfsJobGroupTop3(
   input: RoleFitInput,
   roleConfigs: RoleConfig[],
-  opts?: { strictMinFilter?: boolean }
+  opts?: { strictMinFilter?: boolean; catalog?: JobCatalog }
 ): RfsGroupTop3Json {
   const strict = opts?.strictMinFilter ?? true;
+  const catalog = opts?.catalog ?? BUILTIN_JOB_CATALOG;
 
   // Score each role config and map to group.
   const roleScored = roleConfigs.map((cfg) => {
-    const job = JOB_INDEX[cfg.job_id];
-    if (!job) throw new Error(`RoleConfig.job_id not found in JOB_INDEX: ${cfg.job_id}`);
+    const job = catalog.index[cfg.job_id];
+    if (!job) {
+      throw new RoleFitError("invalid_role_config", `RoleConfig.job_id not found in job catalog: ${cfg.job_id}`, 422);
+    }
 
     const ok = checkMinRequirements(input, cfg);
     const score = scoreRoleFit01(input, cfg);
@@ -649,7 +701,7 @@ export function computeRfsJobGroupTop3(
   // top_groups: group_name + percent + roles + recommended_role
   const top_groups: RfsGroupItem[] = top3.map((g) => {
     const percent = Math.round(g.score_0to1 * 100);
-    const roles = rolesInGroup(g.group_name);
+    const roles = rolesInGroup(catalog, g.group_name);
     const recommended_role = groupBestRole[g.group_name] ?? roles[0] ?? g.group_name;
     return {
       group_name: g.group_name,
@@ -664,7 +716,7 @@ export function computeRfsJobGroupTop3(
 
   let top1GroupId = 0;
   if (top_groups[0]) {
-    for (const j of JOB_GROUPS) {
+    for (const j of catalog.groups) {
       if (j.group_name === top_groups[0].group_name) {
         top1GroupId = j.group_id;
         break;
@@ -681,7 +733,7 @@ export function computeRfsJobGroupTop3(
       }
     : { group_id: 0, group_name: "", percent: 0, recommended_role: "" };
 
-  const pattern_interpretation = top1.group_id ? buildRoleFitInterpretation(top1, input) : "";
+  const pattern_interpretation = top1.group_id ? buildRoleFitInterpretation(top1, input, catalog.templates) : "";
 
   return {
     rfs: {
@@ -695,20 +747,201 @@ export function computeRfsJobGroupTop3(
 }
 
 /* =====================
-   deriveRfs orchestrator
+   Per-role breakdown (HR tab)
+   - Same scoring as scoreRoleFit01, itemized:
+     weighted axis contributions, arc boost, each min_requirements check,
+     and the score gain needed to reach the next 10-point percent band.
+===================== */
+
+export type RoleMinCheck = {
+  requirement: "arc_level" | keyof NeuprintAxes;
+  required: number;
+  actual: number;
+  passed: boolean;
+  gap: number; // required - actual when failed, else 0
+};
+
+export type RoleFitBreakdown = {
+  role_code: string;
+  job_id: string;
+  job_name: string;
+  group_name: string;
+  onet_code: string;
+  oecd_core_skills: string[];
+  contributions: Record<keyof NeuprintAxes, { value: number; weight: number; contribution: number }>;
+  base_score: number;
+  arc: { user_level: number; min_level: number; boost: number };
+  score_0to1: number;
+  percent: number;
+  min_requirements: RoleMinCheck[];
+  meets_min_requirements: boolean;
+  next_band: {
+    percent: number;
+    score_gain_needed: number;
+    // gain on a single axis that would close the gap alone (null when out of reach)
+    axis_gain_needed: Record<keyof NeuprintAxes, number | null>;
+  } | null; // null at 100%
+};
+
+const AXIS_KEYS: (keyof NeuprintAxes)[] = ["analyticity", "flow", "metacognition", "authenticity"];
+
+export function computeRoleFitBreakdown(
+  input: RoleFitInput,
+  cfg: RoleConfig,
+  catalog: JobCatalog = BUILTIN_JOB_CATALOG
+): RoleFitBreakdown {
+  const job = catalog.index[cfg.job_id];
+  if (!job) {
+    throw new RoleFitError("invalid_role_config", `RoleConfig.job_id not found in job catalog: ${cfg.job_id}`, 422);
+  }
+
+  const score = scoreRoleFit01(input, cfg);
+  const w = cfg.neuprint_axes_weights;
+  const a = input.axes;
+  const r4 = (x: number) => Math.round(x * 10000) / 10000;
+
+  const contributions = {} as RoleFitBreakdown["contributions"];
+  for (const k of AXIS_KEYS) contributions[k] = { value: a[k], weight: w[k], contribution: r4(a[k] * w[k]) };
+  const base = AXIS_KEYS.reduce((acc, k) => acc + a[k] * w[k], 0);
+
+  const req = cfg.min_requirements;
+  const pending: Array<Pick<RoleMinCheck, "requirement" | "required" | "actual">> = [
+    { requirement: "arc_level", required: req.arc_level, actual: input.arc_level },
+    ...AXIS_KEYS.filter((k) => typeof req[k] === "number").map((k) => ({
+      requirement: k,
+      required: req[k] as number,
+      actual: a[k],
+    })),
+  ];
+  const checks: RoleMinCheck[] = pending.map((c) => {
+    const passed = c.actual >= c.required;
+    return { ...c, passed, gap: passed ? 0 : r4(c.required - c.actual) };
+  });
+
+  const percent = Math.round(score * 100);
+  let next_band: RoleFitBreakdown["next_band"] = null;
+  if (percent < 100) {
+    const nextPercent = Math.min(100, (Math.floor(percent / 10) + 1) * 10);
+    // percent = round(score * 100), so (nextPercent - 0.5) / 100 is the threshold
+    const gain = Math.max(0, (nextPercent - 0.5) / 100 - score);
+    const axis_gain_needed = {} as Record<keyof NeuprintAxes, number | null>;
+    for (const k of AXIS_KEYS) {
+      const need = w[k] > 0 ? gain / w[k] : Infinity;
+      axis_gain_needed[k] = a[k] + need <= 1 ? r4(need) : null;
+    }
+    next_band = { percent: nextPercent, score_gain_needed: r4(gain), axis_gain_needed };
+  }
+
+  return {
+    role_code: cfg.role_code,
+    job_id: cfg.job_id,
+    job_name: job.job_name,
+    group_name: job.group_name,
+    onet_code: cfg.onet_code,
+    oecd_core_skills: cfg.oecd_core_skills,
+    contributions,
+    base_score: r4(base),
+    arc: {
+      user_level: input.arc_level,
+      min_level: req.arc_level,
+      boost: computeArcBoost(input.arc_level, req.arc_level),
+    },
+    score_0to1: r4(score),
+    percent,
+    min_requirements: checks,
+    meets_min_requirements: checks.every((c) => c.passed),
+    next_band,
+  };
+}
+
+/* =====================
+   Role fit input: NeuprintAxes + arc_level
+   - analyticity   = avg(AAS, EDS)              (cff.core_axes.Analyticity)
+   - flow          = avg(CTF, RMD)              (cff.core_axes.Flow)
+   - metacognition = 0.60*RDX + 0.40*(1 - IFD)  (same as the CFF RR profile; IFD is higher-worse)
+   - authenticity  = avg(1 - KPF-Sim, TPS-H)
+   - Missing indicators are left out and the remaining weights renormalized; an axis with
+     no indicator at all is neutral 0.5. axis_sources lists the indicators each axis used.
+   - arc_level     = RSL level number (L1..L6 -> 1..6); 1 when no level
 ===================== */
-export type DeriveRfsInput = any;
 
-export function deriveRfs(input: DeriveRfsInput): Record<string, any> {
-  const ai = (input && typeof input === "object" && "analysis_input" in input)
-    ? (input as any).analysis_input
-    : input;
+export type AuthenticitySource = "kpf_tps" | "kpf" | "tps" | "neutral_default";
+
+// Indicators an axis was computed from; empty = neutral default
+export type AxisSources = Record<keyof NeuprintAxes, string[]>;
+
+export const NEUTRAL_AXIS_VALUE = 0.5;
+export const NEUTRAL_AUTHENTICITY = NEUTRAL_AXIS_VALUE;
 
-  const raw = ai?.raw_features ?? ai?.raw ?? ai?.rawFeatures ?? ai?.raw_features_v1 ?? ai?.raw_features_v2;
+function round3(x: number): number {
+  return Math.round(x * 1000) / 1000;
+}
+
+export function computeNeuprintAxes(core: Record<string, any> | null | undefined): {
+  axes: NeuprintAxes;
+  axis_sources: AxisSources;
+  authenticity_source: AuthenticitySource;
+} {
+  const v = (x: unknown): number | null => (isFiniteNumber(x) ? clamp01(x) : null);
+  const inv = (x: number | null) => (x == null ? null : 1 - x);
+
+  // Weighted mean over the present terms; neutral when none is present
+  const axis = (terms: Array<[string, number, number | null]>): { value: number; used: string[] } => {
+    const ok = terms.filter((t): t is [string, number, number] => t[2] != null);
+    const w = ok.reduce((a, t) => a + t[1], 0);
+    if (!ok.length || w <= 0) return { value: NEUTRAL_AXIS_VALUE, used: [] };
+    return { value: ok.reduce((a, t) => a + t[1] * t[2], 0) / w, used: ok.map((t) => t[0]) };
+  };
+
+  const analyticity = axis([["AAS", 1, v(core?.AAS)], ["EDS", 1, v(core?.EDS)]]);
+  const flow = axis([["CTF", 1, v(core?.CTF)], ["RMD", 1, v(core?.RMD)]]);
+  const metacognition = axis([["RDX", 0.6, v(core?.RDX)], ["IFD", 0.4, inv(v(core?.IFD))]]);
+  const authenticity = axis([["KPF", 1, inv(v(core?.KPF))], ["TPS", 1, v(core?.TPS)]]);
+
+  const a = authenticity.used;
+  const authenticity_source: AuthenticitySource =
+    a.length === 2 ? "kpf_tps" : a[0] === "KPF" ? "kpf" : a[0] === "TPS" ? "tps" : "neutral_default";
+
+  return {
+    axes: {
+      analyticity: round3(clamp01(analyticity.value)),
+      flow: round3(clamp01(flow.value)),
+      metacognition: round3(clamp01(metacognition.value)),
+      authenticity: round3(clamp01(authenticity.value)),
+    },
+    axis_sources: {
+      analyticity: analyticity.used,
+      flow: flow.used,
+      metacognition: metacognition.used,
+      authenticity: authenticity.used,
+    },
+    authenticity_source,
+  };
+}
+
+export function arcLevelFromRslLevel(level: unknown): number {
+  const m = typeof level === "string" ? /^L([1-6])$/.exec(level) : null;
+  return m ? Number(m[1]) : 1;
+}
+
+/* =====================
+   deriveRfs orchestrator
+===================== */
+// analysis_input + the CFF/RSL blocks produced by deriveCff/deriveRsl
+export type DeriveRfsInput = AnalysisInputV1 & { cff?: Record<string, any>; rsl?: Record<string, any> };
+
+export type DeriveRfsOptions = {
+  // active role catalog (tenant-resolved); input.role_configs takes precedence
+  role_configs?: RoleConfig[];
+  // active job groups / templates (tenant-resolved); default: built-in 15 groups
+  job_catalog?: JobCatalog;
+};
+
+export function deriveRfs(input: DeriveRfsInput, opts?: DeriveRfsOptions): Record<string, any> {
 
   // Cognitive style summary expects style inputs; most pipelines feed it derived CFF + rubric + raw.
   // If caller already has a style_inputs block, use it; else compute minimally from raw/rubric.
-  const indicators = (input as any)?.cff?.indicators ?? ai?.cff?.indicators ?? {};
+  const indicators = input.cff?.indicators ?? {};
   const payload = {
     cff: {
       aas: Number(indicators?.AAS ?? indicators?.aas ?? 0),
@@ -718,24 +951,32 @@ export function deriveRfs(input: DeriveRfsInput): Record<string, any> {
       eds: Number(indicators?.EDS ?? indicators?.eds ?? 0),
       ifd: Number(indicators?.IFD ?? indicators?.ifd ?? 0),
     },
+    // rubric + narrative proxies from deriveRsl (rsl.style_proxies)
+    rsl: input.rsl?.style_proxies,
   };
 
   const style = computeRfsFromPayload(payload as any);
 
-  // Job role fit: expects role configs. If caller provides role_configs, compute; else just return style output.
-  const roleConfigs = Array.isArray(ai?.role_configs) ? ai.role_configs : [];
-  const roleFit = (roleConfigs.length > 0)
-    ? computeRfsJobGroupTop3((style as any)?.rfs ?? (ai?.rfs ?? {}), roleConfigs as any, { strictMinFilter: true })
-    : null;
+  // Role fit input from the CFF core axes + RSL level
+  const { axes, axis_sources, authenticity_source } = computeNeuprintAxes(input.cff?.core_axes);
+  const roleFitInput: RoleFitInput = { axes, arc_level: arcLevelFromRslLevel(input.rsl?.level) };
+  const axesOut = { rfs: { axes, arc_level: roleFitInput.arc_level, axis_sources, authenticity_source } };
 
-  if (roleFit) {
-    return deepMergeAll(style, { rfs: roleFit as any });
+  // Job role fit: request role_configs, else the active catalog.
+  const roleConfigs = input.role_configs ?? opts?.role_configs ?? [];
+  if (roleConfigs.length === 0) {
+    return deepMergeAll(style, axesOut, { rfs: { role_fit_status: "no_role_configs" } });
   }
-  return style;
+
+  const roleFit = computeRfsJobGroupTop3(roleFitInput, roleConfigs, {
+    strictMinFilter: true,
+    catalog: opts?.job_catalog,
+  });
+  return deepMergeAll(style, axesOut, roleFit);
 
   function buildStyleInputs(rawAny: any, rubricAny: any) {
     return {
-      cff: ai?.cff ?? null,
+      cff: input.cff ?? null,
       rsl_rubric: rubricAny ?? null,
       raw_features: rawAny ?? null
     };
@@ -1,3 +1,5 @@
+import { getRslLevelPolicy } from "../policy";
+import type { AnalysisInputV1 } from "../schema";
 
 /* =====================
    SOURCE: Backend_1_RSL_Level.ts
@@ -521,6 +523,10 @@ export type RawFeatures = {
     per_unit?: {
       transitions?: number[];
       revisions?: number[];
+      claims?: number[];
+      reasons?: number[];
+      warrants?: number[];
+      evidence?: number[];
     };
     claims?: number;
     reasons?: number;
@@ -964,49 +970,246 @@ export function deriveRslSriFromRaw(raw: RawFeatures): RslSriDerived {
 }
 
 
+/* ==========================================
+   6) Supplied rubric vs raw-derived rubric
+   ========================================== */
+
+export type RubricBlendMode = "off" | "always" | "on_divergence";
+
+export type RslRubricCheckOptions = {
+  tolerance: number; // max |supplied - raw| per dimension (0..5 scale)
+  blend: RubricBlendMode;
+  raw_weight: number; // 0..1, weight of the raw-derived rubric when blending
+};
+
+export type RslRubricConsistency = {
+  tolerance: number;
+  deltas: RslRubric4; // supplied - raw_derived
+  max_abs_delta: number;
+  divergent_dimensions: (keyof RslRubric4)[];
+  consistent: boolean;
+  blend: {
+    mode: RubricBlendMode;
+    raw_weight: number;
+    applied: boolean;
+  };
+};
+
+const RUBRIC_DIMENSIONS: (keyof RslRubric4)[] = ["coherence", "structure", "evaluation", "integration"];
+
+/**
+ * Flags dimensions where the supplied rubric disagrees with the raw-derived one
+ * by more than `tolerance`, and returns the rubric to score with
+ * (supplied, or blended toward raw according to `blend`).
+ */
+export function compareRslRubrics(
+  supplied: RslRubric4,
+  fromRaw: RslRubric4,
+  opts: RslRubricCheckOptions
+): { rubric: RslRubric4; consistency: RslRubricConsistency } {
+  const deltas = {} as RslRubric4;
+  for (const k of RUBRIC_DIMENSIONS) deltas[k] = round2(supplied[k] - fromRaw[k]);
+
+  const divergent = RUBRIC_DIMENSIONS.filter((k) => Math.abs(deltas[k]) > opts.tolerance);
+  const applied = opts.blend === "always" || (opts.blend === "on_divergence" && divergent.length > 0);
+
+  const w = clamp01(opts.raw_weight);
+  const rubric = { ...supplied };
+  if (applied) {
+    for (const k of RUBRIC_DIMENSIONS) rubric[k] = round2((1 - w) * supplied[k] + w * fromRaw[k]);
+  }
+
+  return {
+    rubric,
+    consistency: {
+      tolerance: opts.tolerance,
+      deltas,
+      max_abs_delta: Math.max(...RUBRIC_DIMENSIONS.map((k) => Math.abs(deltas[k]))),
+      divergent_dimensions: divergent,
+      consistent: divergent.length === 0,
+      blend: { mode: opts.blend, raw_weight: w, applied }
+    }
+  };
+}
+
+
+/* ==========================================
+   7) Evidence link rate (L4+ evidence gate)
+   ========================================== */
+
+export type EvidenceLinkRate = {
+  rate: number; // 0..1
+  source: "per_unit" | "link_density_proxy" | "none";
+  linked_evidence: number | null; // per_unit only
+  evidence_count: number;
+};
+
+/**
+ * Share of evidence attached to the argument.
+ * - per_unit: evidence in units that also carry a reason or warrant, over all evidence.
+ *   Claims do not count: extractors default every unit to one claim, so a claim in the
+ *   same unit says nothing about whether the evidence is used.
+ * - link_density_proxy (fallback): generic sentence link density over reasoning atoms,
+ *   capped by (reasons + warrants) / evidence since evidence needs something to support
+ * - no evidence or no link data: 0
+ */
+export function computeEvidenceLinkRateFromRaw(raw: RawFeatures): EvidenceLinkRate {
+  const evidenceCount = safeInt(raw.layer_0?.evidence, 0);
+  const pu = raw.layer_0?.per_unit;
+  const ev = safeArray(pu?.evidence);
+  const anchors = [safeArray(pu?.reasons), safeArray(pu?.warrants)].filter((a) => a.length);
+
+  if (ev.length && anchors.length) {
+    const total = ev.reduce((a, b) => a + b, 0);
+    let linked = 0;
+    ev.forEach((n, i) => {
+      if (anchors.some((a) => (a[i] ?? 0) > 0)) linked += n;
+    });
+    return {
+      rate: total > 0 ? round4(linked / total) : 0,
+      source: "per_unit",
+      linked_evidence: linked,
+      evidence_count: evidenceCount
+    };
+  }
+
+  if (evidenceCount > 0 && isFiniteNumber(raw.adjacency_links)) {
+    const supports = safeInt(raw.layer_0?.reasons, 0) + safeInt(raw.layer_1?.warrants, 0);
+    const atoms = safeInt(raw.layer_0?.claims, 0) + supports + evidenceCount;
+    const density = safeInt(raw.adjacency_links, 0) / Math.max(1, atoms - 1);
+    return {
+      rate: round4(clamp01(Math.min(density, supports / evidenceCount))),
+      source: "link_density_proxy",
+      linked_evidence: null,
+      evidence_count: evidenceCount
+    };
+  }
+
+  return { rate: 0, source: "none", linked_evidence: null, evidence_count: evidenceCount };
+}
+
+
+/* ==========================================
+   8) Style proxies (cognitive style in rfs)
+   ========================================== */
+
+// Narrative dimension scores (narrative_text.rsl.dimensions): R1..R8, 1..5
+export type RslNarrativeDimension = {
+  code: string;
+  score_1to5?: number;
+};
+
+export type RslStyleProxies = {
+  rsl_control: number;    // 0..1
+  rsl_validation: number; // 0..1
+  rsl_hypothesis: number; // 0..1
+  rsl_expansion: number;  // 0..1
+  narrative_codes_used: string[]; // R codes that contributed; empty = rubric only
+};
+
+type ProxyTerm = { rubric: keyof RslRubric4 } | { narrative: string };
+
+/**
+ * Each proxy blends one rubric dimension with the narrative dimensions closest to it:
+ * - control:    structure + R5 Coherence & Clarity, R6 Metacognition & Self-repair
+ * - validation: evaluation + R3 Evidence Quality, R4 Reasoning & Counterfactuals
+ * - hypothesis: integration + R4 Reasoning & Counterfactuals, R2 Issue Decomposition
+ * - expansion:  integration + R8 Perspective Flexibility, R7 Ethical / Societal Framing, R1 Interpretation
+ * Missing narrative scores drop out and the remaining weights are renormalized,
+ * so without a narrative each proxy is its rubric dimension / 5.
+ */
+const STYLE_PROXY_TERMS: Record<Exclude<keyof RslStyleProxies, "narrative_codes_used">, Array<[number, ProxyTerm]>> = {
+  rsl_control: [[0.5, { rubric: "structure" }], [0.25, { narrative: "R5" }], [0.25, { narrative: "R6" }]],
+  rsl_validation: [[0.5, { rubric: "evaluation" }], [0.3, { narrative: "R3" }], [0.2, { narrative: "R4" }]],
+  rsl_hypothesis: [[0.3, { rubric: "integration" }], [0.4, { narrative: "R4" }], [0.3, { narrative: "R2" }]],
+  rsl_expansion: [
+    [0.3, { rubric: "integration" }],
+    [0.4, { narrative: "R8" }],
+    [0.15, { narrative: "R7" }],
+    [0.15, { narrative: "R1" }]
+  ]
+};
+
+export function computeRslStyleProxies(rubric: RslRubric4, dimensions?: RslNarrativeDimension[]): RslStyleProxies {
+  const narrative: Record<string, number> = {};
+  for (const d of Array.isArray(dimensions) ? dimensions : []) {
+    if (typeof d?.code === "string" && isFiniteNumber(d.score_1to5)) {
+      narrative[d.code] = clamp01((d.score_1to5 - 1) / 4);
+    }
+  }
+
+  const used = new Set<string>();
+  const proxy = (terms: Array<[number, ProxyTerm]>): number => {
+    let sum = 0;
+    let wsum = 0;
+    for (const [w, t] of terms) {
+      let v: number | undefined;
+      if ("rubric" in t) v = clamp01(safeNum(rubric[t.rubric]) / 5);
+      else if (t.narrative in narrative) {
+        v = narrative[t.narrative];
+        used.add(t.narrative);
+      }
+      if (v === undefined) continue;
+      sum += w * v;
+      wsum += w;
+    }
+    return wsum > 0 ? round4(sum / wsum) : 0;
+  };
+
+  return {
+    rsl_control: proxy(STYLE_PROXY_TERMS.rsl_control),
+    rsl_validation: proxy(STYLE_PROXY_TERMS.rsl_validation),
+    rsl_hypothesis: proxy(STYLE_PROXY_TERMS.rsl_hypothesis),
+    rsl_expansion: proxy(STYLE_PROXY_TERMS.rsl_expansion),
+    narrative_codes_used: [...used].sort()
+  };
+}
+
+
 /* =====================
    deriveRsl orchestrator
-   - Accepts either { analysis_input: {...} } or direct {...}
+   - Input: canonical analysis_input (AnalysisInputV1)
    - Returns partial report JSON under keys used by UI (rsl.*)
 ===================== */
 
-export type DeriveRslInput = any;
-
-export function deriveRsl(input: DeriveRslInput): Record<string, any> {
-  const ai = (input && typeof input === "object" && "analysis_input" in input)
-    ? (input as any).analysis_input
-    : input;
+export type DeriveRslInput = AnalysisInputV1;
+
+export type DeriveRslOptions = {
+  // named level preset (flags + gates); default "default"
+  level_policy?: string;
+  // supplied vs raw-derived rubric check (defaults: tolerance 1.0, no blending)
+  rubric_tolerance?: number;
+  rubric_blend?: RubricBlendMode;
+  rubric_raw_weight?: number;
+  // cohort positioning is withheld below this many scores (default 10)
+  cohort_min_size?: number;
+  // named cohort behind cohort_fri_list (lib/server/cohorts.ts), for labelling only
+  cohort?: { id: string; name: string; snapshot_id: string | null };
+  // narrative R1..R8 scores, blended into the style proxies
+  narrative_dimensions?: RslNarrativeDimension[];
+};
 
-  const raw = ai?.raw_features ?? ai?.raw ?? ai?.rawFeatures ?? ai?.raw_features_v1 ?? ai?.raw_features_v2;
-  const rubric = ai?.rsl_rubric ?? ai?.rubric ?? ai?.rslRubric;
+export function deriveRsl(input: DeriveRslInput, opts?: DeriveRslOptions) {
+  const raw = input.raw_features;
 
-  // RSL Level (rubric-driven)
-  const coherence = Number(rubric?.coherence ?? rubric?.coherence_rubric_0to5 ?? 0);
-  const structure = Number(rubric?.structure ?? rubric?.structure_rubric_0to5 ?? 0);
-  const evaluation = Number(rubric?.evaluation ?? rubric?.evaluation_rubric_0to5 ?? 0);
-  const integration = Number(rubric?.integration ?? rubric?.integration_rubric_0to5 ?? 0);
+  // SRI + rubric re-derived from raw_features (independent of the supplied rubric)
+  const sriRes = deriveRslSriFromRaw(raw);
+  const d = sriRes.sri.diagnostics;
 
-  const evidenceCount = Number(raw?.layer_0?.evidence ?? raw?.layer_0?.evidence_count ?? 0);
-  const hasCounterpoint = Boolean(raw?.layer_1?.counterpoints ?? raw?.layer_1?.has_counterpoint);
-  const hasRefutation = Boolean(raw?.layer_1?.refutations ?? raw?.layer_1?.has_refutation);
+  const check = compareRslRubrics(input.rsl_rubric, sriRes.rsl_rubric, {
+    tolerance: opts?.rubric_tolerance ?? 1.0,
+    blend: opts?.rubric_blend ?? "off",
+    raw_weight: opts?.rubric_raw_weight ?? 0.5
+  });
+  const { coherence, structure, evaluation, integration } = check.rubric;
 
-  const levelFlags: RSLLevelFlags = {
-    strict_mode: false,
-    evidence_required_for_L4plus: true,
-    allow_L6: true
-  };
+  const evidenceLink = computeEvidenceLinkRateFromRaw(raw);
+  const hasCounterpoint = raw.layer_1.counterpoints > 0;
+  const hasRefutation = raw.layer_1.refutations > 0;
 
-  const levelPolicy: RSLLevelPolicy = {
-    gate_L2_min: 1,
-    gate_L3_min: 2,
-    gate_L4_min: 3,
-    gate_L5_min: 4,
-    gate_L6_min: 5,
-    min_evidence_count_for_L4plus: 2,
-    min_evidence_link_rate_for_L4plus: 0.3,
-    strict_gate_bonus: 0,
-    l6_integration_min: 5
-  };
+  const preset = getRslLevelPolicy(opts?.level_policy);
+  const levelFlags = preset.flags;
+  const levelPolicy = preset.gates;
 
   const levelRes = computeRSLLevel(
     {
@@ -1014,8 +1217,8 @@ export function deriveRsl(input: DeriveRslInput): Record<string, any> {
       structure_rubric_0to5: structure,
       evaluation_rubric_0to5: evaluation,
       integration_rubric_0to5: integration,
-      evidence_count: evidenceCount,
-      evidence_link_rate_0to1: undefined,
+      evidence_count: evidenceLink.evidence_count,
+      evidence_link_rate_0to1: evidenceLink.rate,
       has_counterpoint: hasCounterpoint,
       has_refutation: hasRefutation
     },
@@ -1024,87 +1227,90 @@ export function deriveRsl(input: DeriveRslInput): Record<string, any> {
   );
 
   // FRI (rubric-driven: R3..R6 correspond to rubric dimensions)
-  const friRes = computeFRI(coherence, structure, evaluation, integration);
-
-  // Cohort positioning (optional cohort list from input)
-  const cohortList: number[] = Array.isArray(ai?.cohort_fri_list) ? ai.cohort_fri_list : [];
-  const friScore = friRes?.rsl?.fri?.score ?? 0;
-  const pct = percentile0to1(friScore, cohortList);
-  const topLabel = topPercentLabel(pct);
-  const topValue = Number(topLabel.replace(/[^0-9]/g, "")) || Math.round((1 - pct) * 100);
-
-  const cohort = {
-    rsl: {
-      charts: {
-        cohort_positioning: {
-          current: { x: pct, y: friScore },
-          percentile_0to1: pct,
-          top_percent_label: topLabel,
-          interpretation: cohortInterpretationFromTopPercent(topValue)
-        }
-      }
-    }
+  const fri = computeFRI(coherence, structure, evaluation, integration).rsl.fri;
+
+  // Cohort positioning (optional cohort list from input), withheld for small cohorts
+  const cohortList: number[] = input.cohort_fri_list ?? [];
+  const minSize = opts?.cohort_min_size ?? 10;
+  const cohortBase = {
+    cohort_id: opts?.cohort?.id ?? null,
+    cohort_name: opts?.cohort?.name ?? null,
+    snapshot_id: opts?.cohort?.snapshot_id ?? null,
+    cohort_size: cohortList.length,
+    min_cohort_size: minSize,
+    sufficient: cohortList.length >= minSize
   };
-
-  // SRI (raw-driven)
-  const rubric4 = raw ? computeRslRubric4FromRaw(raw as any) : null;
-
-  // computeSRI expects SRIInputs (vector + scores). We derive minimal inputs from rubric4 if available.
-  let sriOut: SRIRslPublicOutput | null = null;
-  try {
-    if (rubric4 && (rubric4 as any)?.rslVector) {
-      const rslVector = (rubric4 as any).rslVector as number[];
-      const transitionJumpScore = (rubric4 as any).transitionJumpScore ?? null;
-      const metaImbalanceScore = (rubric4 as any).metaImbalanceScore ?? null;
-      const s = computeSRI({ rslVector, transitionJumpScore, metaImbalanceScore });
-      sriOut = {
-        rsl: {
-          sri: {
-            score: s.sri,
-            interpretation: s.notes
-          }
-        }
+  const cohort = cohortBase.sufficient
+    ? (() => {
+        const c = computeRslCohortResponse(fri.score, cohortList).rsl.cohort;
+        const of = cohortBase.cohort_name ? ` of ${cohortBase.cohort_name}` : "";
+        return { ...c, ...cohortBase, display_label: `${c.top_percent_label}${of} (n=${cohortList.length})` };
+      })()
+    : {
+        percentile_0to1: null,
+        top_percent_label: null,
+        interpretation: `Cohort positioning is shown once the comparison group has at least ${minSize} scores.`,
+        ...cohortBase,
+        display_label: null
       };
-    }
-  } catch {
-    sriOut = null;
-  }
 
-  // Base rsl object merge
-  const out: any = {
+  return {
     rsl: {
       level: levelRes.level,
       level_meta: levelRes.meta,
-      rubric: {
-        coherence,
-        structure,
-        evaluation,
-        integration
-      }
+      level_policy: {
+        name: preset.name,
+        version: preset.version,
+        flags: levelFlags,
+        effective_gates: {
+          L2: adjustedGate(levelPolicy.gate_L2_min, levelFlags, levelPolicy),
+          L3: adjustedGate(levelPolicy.gate_L3_min, levelFlags, levelPolicy),
+          L4: adjustedGate(levelPolicy.gate_L4_min, levelFlags, levelPolicy),
+          L5: adjustedGate(levelPolicy.gate_L5_min, levelFlags, levelPolicy),
+          L6: adjustedGate(levelPolicy.gate_L6_min, levelFlags, levelPolicy)
+        },
+        rubric_min: levelRes.rubric_min,
+        passed: levelRes.gates
+      },
+      level_evidence: {
+        evidence_count: evidenceLink.evidence_count,
+        evidence_link_rate_0to1: evidenceLink.rate,
+        link_rate_source: evidenceLink.source,
+        linked_evidence: evidenceLink.linked_evidence,
+        min_evidence_count_for_L4plus: levelPolicy.min_evidence_count_for_L4plus,
+        min_evidence_link_rate_for_L4plus: levelPolicy.min_evidence_link_rate_for_L4plus,
+        evidence_ok: levelRes.evidence_ok,
+        // rubric alone would reach L4, but the evidence gate holds the level at L3
+        capped_by_evidence:
+          !levelRes.evidence_ok && levelRes.rubric_min >= adjustedGate(levelPolicy.gate_L4_min, levelFlags, levelPolicy)
+      },
+      rubric: { coherence, structure, evaluation, integration },
+      ...(check.consistency.blend.applied ? { rubric_supplied: input.rsl_rubric } : {}),
+      rubric_mean_0to5: round2(levelRes.rubric_mean_0to5),
+      fri,
+      cohort,
+      charts: {
+        cohort_positioning: {
+          current: { x: cohort.percentile_0to1, y: fri.score }
+        }
+      },
+      sri: {
+        score: round2(sriRes.sri.sri),
+        band: sriRes.sri.band,
+        interpretation: sriRes.sri.notes,
+        diagnostics: {
+          variance_score: round4(d.varianceScore),
+          transition_jump_score: round4(d.transitionScore),
+          meta_imbalance_score: round4(d.metaScore),
+          instability: round4(d.instability),
+          weights: d.weights
+        }
+      },
+      rubric_from_raw: sriRes.rsl_rubric,
+      rubric_consistency: check.consistency,
+      style_proxies: computeRslStyleProxies(check.rubric, opts?.narrative_dimensions)
     }
   };
-
-  // merge in nested rsl outputs from components
-  Object.assign(out, friRes);
-  if (cohort) out.rsl = deepMerge(out.rsl, cohort.rsl);
-  if (rubric4 && (rubric4 as any).rsl?.rubric4) out.rsl = deepMerge(out.rsl, (rubric4 as any).rsl);
-  if (sriOut) out.rsl = deepMerge(out.rsl, sriOut.rsl);
-
-  return out;
-
-  function deepMerge(a: any, b: any): any {
-    if (!a || typeof a !== "object") return b;
-    if (!b || typeof b !== "object") return a;
-    const out = Array.isArray(a) ? [...a] : { ...a };
-    for (const k of Object.keys(b)) {
-      const av = (out as any)[k];
-      const bv = (b as any)[k];
-      if (av && typeof av === "object" && bv && typeof bv === "object" && !Array.isArray(av) && !Array.isArray(bv)) {
-        (out as any)[k] = deepMerge(av, bv);
-      } else {
-        (out as any)[k] = bv;
-      }
-    }
-    return out;
-  }
 }
+
+export type DeriveRslResult = ReturnType<typeof deriveRsl>;
@@ -0,0 +1,247 @@
+// lib/server/envelope.ts
+// Request body parsing for POST /api/analyze.
+//
+// Accepted body shapes:
+//   1) AnalysisEnvelope            { analysis_input, narrative_text?, meta?, options?, tenant_id?, policy?, cohort? }
+//   2) Raw text submission         { text, analysis_input?, narrative_text?, meta?, options?, tenant_id?, policy?, cohort? }
+//
+// Fixture mode (the static envelope in lib/fixtures) is opt-in only:
+//   - env NP_FIXTURE_MODE=1, or
+//   - query string ?fixture=1
+//
+// Whatever the source (submitted, extracted, fixture), analysis_input is checked
+// against the canonical v1 schema (lib/server/schema.ts) before derive runs.
+
+import { parseCohortRef, type CohortRef } from "./cohorts";
+import { INDICATOR_CODES, type IndicatorCode } from "./derive/cff";
+import { validatePolicyOverride, type AnalysisPolicyOverride } from "./policy";
+import {
+  validateAnalysisInput,
+  validateNarrativeRsl,
+  type AnalysisInputV1,
+  type ValidationIssue,
+} from "./schema";
+
+export type NarrativeRsl = {
+  summary?: { one_line?: string; paragraph?: string };
+  dimensions?: Array<{
+    code: string;
+    label?: string;
+    score_1to5?: number;
+    observation?: string;
+  }>;
+};
+
+// Per-request analysis switches (body.options)
+export type AnalysisOptions = {
+  excluded_indicators?: IndicatorCode[];
+  explain?: boolean; // also enabled by ?explain=1
+};
+
+export type AnalysisEnvelope = {
+  analysis_input: AnalysisInputV1;
+  narrative_text?: { rsl?: NarrativeRsl };
+  // Legacy key used by the recorded fixture (same shape as narrative_text).
+  gpt_text?: { rsl?: NarrativeRsl };
+  meta?: { input_language?: string; feature_source?: string };
+  options?: AnalysisOptions;
+  tenant_id?: string; // header x-np-tenant takes precedence
+  policy?: AnalysisPolicyOverride; // per-request policy override
+  cohort?: CohortRef; // position against (and contribute to) a stored cohort
+};
+
+export type AnalyzeRequest = {
+  text: string | null;
+  envelope: AnalysisEnvelope | null; // null when only text was submitted
+  meta: { input_language?: string };
+  options: AnalysisOptions;
+  tenant_id?: string;
+  policy?: AnalysisPolicyOverride;
+  cohort?: CohortRef;
+};
+
+export const MAX_TEXT_CHARS = 60000;
+
+export class EnvelopeError extends Error {
+  status: number;
+  code: string;
+  details?: ValidationIssue[];
+
+  constructor(code: string, message: string, status = 400, details?: ValidationIssue[]) {
+    super(message);
+    this.name = "EnvelopeError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+function isPlainObject(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+export function isFixtureMode(req: Request): boolean {
+  const env = String(process.env.NP_FIXTURE_MODE ?? "").toLowerCase();
+  if (env === "1" || env === "true") return true;
+
+  try {
+    const q = new URL(req.url).searchParams.get("fixture");
+    return q === "1" || q === "true";
+  } catch {
+    return false;
+  }
+}
+
+function parseOptions(x: unknown): AnalysisOptions {
+  if (x === undefined || x === null) return {};
+  if (!isPlainObject(x)) {
+    throw new EnvelopeError("invalid_options", "`options` must be an object.");
+  }
+
+  const out: AnalysisOptions = {};
+  if (x.excluded_indicators !== undefined) {
+    const ex = x.excluded_indicators;
+    if (!Array.isArray(ex) || ex.some((c) => !INDICATOR_CODES.includes(c))) {
+      throw new EnvelopeError(
+        "invalid_options",
+        `\`options.excluded_indicators\` must be a list of: ${INDICATOR_CODES.join(", ")}.`
+      );
+    }
+    out.excluded_indicators = ex as IndicatorCode[];
+  }
+  if (x.explain !== undefined) {
+    if (typeof x.explain !== "boolean") {
+      throw new EnvelopeError("invalid_options", "`options.explain` must be a boolean.");
+    }
+    out.explain = x.explain;
+  }
+  return out;
+}
+
+export function isExplainMode(req: Request, options?: AnalysisOptions): boolean {
+  if (options?.explain) return true;
+
+  try {
+    const q = new URL(req.url).searchParams.get("explain");
+    return q === "1" || q === "true";
+  } catch {
+    return false;
+  }
+}
+
+export async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new EnvelopeError("invalid_json", "Request body must be valid JSON.");
+  }
+}
+
+/**
+ * parseAnalyzeBody
+ * - Structural checks only (object shapes, text length).
+ * - Field-level validation of analysis_input happens in assertAnalysisInput.
+ */
+export function parseAnalyzeBody(body: unknown): AnalyzeRequest {
+  if (!isPlainObject(body)) {
+    throw new EnvelopeError("invalid_body", "Request body must be a JSON object.");
+  }
+
+  let text: string | null = null;
+  if (body.text !== undefined && body.text !== null) {
+    if (typeof body.text !== "string") {
+      throw new EnvelopeError("invalid_text", "`text` must be a string.");
+    }
+    const t = body.text.trim();
+    if (t.length > MAX_TEXT_CHARS) {
+      throw new EnvelopeError("text_too_long", `\`text\` exceeds ${MAX_TEXT_CHARS} characters.`, 413);
+    }
+    text = t.length ? t : null;
+  }
+
+  const meta = isPlainObject(body.meta) ? body.meta : {};
+  if (meta.input_language !== undefined && typeof meta.input_language !== "string") {
+    throw new EnvelopeError("invalid_meta", "`meta.input_language` must be a string.");
+  }
+
+  const options = parseOptions(body.options);
+
+  if (body.tenant_id !== undefined && (typeof body.tenant_id !== "string" || !body.tenant_id.trim())) {
+    throw new EnvelopeError("invalid_tenant", "`tenant_id` must be a non-empty string.");
+  }
+  const tenant_id: string | undefined = body.tenant_id?.trim();
+
+  let policy: AnalysisPolicyOverride | undefined;
+  if (body.policy !== undefined) {
+    const res = validatePolicyOverride(body.policy);
+    if (!res.ok) throw new EnvelopeError("invalid_policy", "`policy` failed validation.", 400, res.errors);
+    policy = res.value;
+  }
+
+  const cohort = body.cohort === undefined ? undefined : parseCohortRef(body.cohort);
+
+  const narrativeKey = body.narrative_text !== undefined ? "narrative_text" : "gpt_text";
+  const narrative = body.narrative_text ?? body.gpt_text;
+  if (narrative !== undefined && !isPlainObject(narrative)) {
+    throw new EnvelopeError("invalid_narrative", "`narrative_text` must be an object.");
+  }
+  // Narrative R1..R8 scores feed the RSL style proxies, so their shape is checked here
+  if (narrative?.rsl !== undefined) {
+    const issues = validateNarrativeRsl(narrative.rsl, `${narrativeKey}.rsl`);
+    if (issues.length) {
+      throw new EnvelopeError("invalid_narrative", `\`${narrativeKey}.rsl\` failed validation.`, 422, issues);
+    }
+  }
+
+  if (body.analysis_input === undefined || body.analysis_input === null) {
+    if (!text) {
+      throw new EnvelopeError("empty_submission", "Provide `text` or `analysis_input`.");
+    }
+    return { text, envelope: null, meta, options, tenant_id, policy, cohort };
+  }
+
+  if (!isPlainObject(body.analysis_input)) {
+    throw new EnvelopeError("invalid_analysis_input", "`analysis_input` must be an object.", 422);
+  }
+
+  return {
+    text,
+    envelope: {
+      // Unchecked here; callers run assertAnalysisInput before derive.
+      analysis_input: body.analysis_input as AnalysisInputV1,
+      narrative_text: narrative,
+      meta,
+      options,
+      tenant_id,
+      policy,
+      cohort,
+    },
+    meta,
+    options,
+    tenant_id,
+    policy,
+    cohort,
+  };
+}
+
+/**
+ * assertAnalysisInput
+ * - Validates against AnalysisInputV1; throws 422 with path-addressed details.
+ */
+export function assertAnalysisInput(x: unknown): AnalysisInputV1 {
+  const res = validateAnalysisInput(x);
+  if (!res.ok) {
+    const n = res.errors.length;
+    throw new EnvelopeError(
+      "invalid_analysis_input",
+      `\`analysis_input\` failed validation (${n} issue${n === 1 ? "" : "s"}).`,
+      422,
+      res.errors
+    );
+  }
+  return res.value;
+}
+
+export function narrativeRslOf(envelope: AnalysisEnvelope): NarrativeRsl | undefined {
+  return envelope.narrative_text?.rsl ?? envelope.gpt_text?.rsl;
+}
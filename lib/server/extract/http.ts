@@ -0,0 +1,66 @@
+// lib/server/extract/http.ts
+// HTTP transport for an OpenAI-compatible chat-completions endpoint.
+//
+// ENV
+// - NP_MODEL_API_URL   e.g. https://api.openai.com/v1/chat/completions
+// - NP_MODEL_API_KEY   bearer token
+// - NP_MODEL_NAME      model id passed through as-is
+// - NP_MODEL_TIMEOUT_MS  per-attempt timeout (default 60000)
+
+import type { ModelTransport } from "./provider";
+
+export type HttpTransportConfig = {
+  url: string;
+  api_key: string;
+  model: string;
+  timeout_ms?: number;
+};
+
+export function httpTransportConfigFromEnv(): HttpTransportConfig | null {
+  const url = process.env.NP_MODEL_API_URL;
+  const api_key = process.env.NP_MODEL_API_KEY;
+  const model = process.env.NP_MODEL_NAME;
+  if (!url || !api_key || !model) return null;
+
+  const t = Number(process.env.NP_MODEL_TIMEOUT_MS);
+  return { url, api_key, model, timeout_ms: Number.isFinite(t) && t > 0 ? t : undefined };
+}
+
+export function createHttpChatTransport(cfg: HttpTransportConfig): ModelTransport {
+  return async (prompt) => {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), cfg.timeout_ms ?? 60000);
+
+    try {
+      const res = await fetch(cfg.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${cfg.api_key}`,
+        },
+        body: JSON.stringify({
+          model: cfg.model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content: `${prompt.system}\n\nResponse schema (${prompt.contract_version}):\n${JSON.stringify(prompt.response_schema)}`,
+            },
+            { role: "user", content: prompt.user },
+          ],
+        }),
+        signal: ctrl.signal,
+      });
+
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+      const json: any = await res.json();
+      const content = json?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") throw new Error("completion has no message content");
+      return content;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
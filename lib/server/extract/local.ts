@@ -0,0 +1,446 @@
+// lib/server/extract/local.ts
+// Local raw-feature extractor (rule-based, deterministic, no model calls).
+//
+// PURPOSE
+// - Produce analysis_input.raw_features (layer_0..layer_3, evidence_types, adjacency_links)
+//   directly from submitted text so derive() can run end-to-end offline.
+// - Serve as a baseline to compare against model-produced features.
+//
+// METHOD
+// - Units: paragraphs (blank-line separated). A single-paragraph text is split
+//   into groups of SENTENCES_PER_UNIT sentences instead.
+// - Every count comes from discourse-marker lexicons (English only for v1).
+// - unit_lengths are word counts. per_unit arrays always have length === units.
+
+import { computeRslRubric4FromRaw } from "../derive/rsl";
+import type { AnalysisInputV1, RawFeaturesLayeredV1, StructureTypeV1 } from "../schema";
+
+export const LOCAL_EXTRACTOR_VERSION = "local-rules-v1";
+
+export type LocalRawFeatures = RawFeaturesLayeredV1;
+
+export type LocalAnalysisInput = AnalysisInputV1;
+
+const SENTENCES_PER_UNIT = 3;
+const TRANSITION_WINDOW_TOKENS = 4; // a connective counts as a transition only near sentence start
+const LOOP_JACCARD = 0.8;
+const DRIFT_MIN_VOCAB = 5; // units with fewer content words are never marked as drift
+
+/* =========================
+   Lexicons
+========================= */
+
+export type TransitionType = "contrast" | "cause" | "addition" | "sequence" | "example" | "conclusion";
+
+export const TRANSITION_LEXICON: Record<TransitionType, string[]> = {
+  contrast: [
+    "however", "but", "yet", "on the other hand", "in contrast", "whereas", "although",
+    "nevertheless", "nonetheless", "instead", "conversely", "even so",
+  ],
+  cause: [
+    "because", "therefore", "thus", "hence", "consequently", "as a result", "accordingly", "so",
+  ],
+  addition: ["moreover", "furthermore", "in addition", "also", "additionally", "besides"],
+  sequence: [
+    "first", "firstly", "second", "secondly", "third", "thirdly", "then", "next", "finally",
+    "afterward", "afterwards", "subsequently", "meanwhile", "later",
+  ],
+  example: ["for example", "for instance", "such as", "namely", "to illustrate"],
+  conclusion: ["in conclusion", "overall", "in summary", "to sum up", "ultimately", "in short"],
+};
+
+const CLAIM_MARKERS = [
+  "i think", "i believe", "i argue", "i would argue", "we should", "should", "must", "clearly",
+  "it is clear", "in my view", "in my opinion", "therefore", "thus", "hence", "in conclusion",
+  "ultimately",
+];
+
+const REASON_MARKERS = [
+  "because", "since", "due to", "given that", "the reason", "owing to", "this is why", "as a result of",
+];
+
+const WARRANT_MARKERS = [
+  "this shows", "this means", "which means", "this suggests", "this implies", "it follows that",
+  "that is why", "this demonstrates", "which indicates", "which shows", "this indicates",
+];
+
+const SUB_CLAIM_MARKERS = [
+  "firstly", "secondly", "thirdly", "first of all", "another reason", "in addition", "furthermore",
+  "moreover", "a further point", "another point",
+];
+
+const COUNTERPOINT_MARKERS = [
+  "however", "on the other hand", "critics", "some argue", "some may argue", "some might argue",
+  "opponents", "although", "admittedly", "it could be argued", "one might object", "skeptics",
+];
+
+const REFUTATION_MARKERS = [
+  "nevertheless", "nonetheless", "even so", "on the contrary", "that said", "this overlooks",
+  "this ignores", "does not hold", "is not the case", "fails to account", "this misses",
+];
+
+const HEDGE_MARKERS = [
+  "perhaps", "maybe", "might", "possibly", "probably", "seems", "seem", "appears", "arguably",
+  "somewhat", "likely", "could be", "it is possible",
+];
+
+const INTENT_MARKERS = [
+  "i will argue", "this essay", "in this essay", "my aim", "the aim of", "the purpose of",
+  "i want to", "i intend", "the goal of", "this paper", "i will show", "i will examine",
+];
+
+const SELF_REGULATION_MARKERS = [
+  "in other words", "to clarify", "to be clear", "let me", "i need to", "step back",
+  "to put it differently", "more precisely", "to be precise", "on reflection",
+];
+
+// Local repairs: a phrase or claim is adjusted in place.
+const REVISION_LOCAL_MARKERS = [
+  "actually", "rather", "i mean", "on second thought", "more accurately", "correction",
+];
+
+// Belief-level repairs: a prior position is revised.
+const REVISION_BELIEF_MARKERS = [
+  "i used to think", "i changed my mind", "i realized", "i realised", "i now think", "i was wrong",
+  "in retrospect", "looking back", "at first i", "i no longer",
+];
+
+const REVISION_DEPTH_LOCAL = 0.5;
+const REVISION_DEPTH_BELIEF = 1.0;
+
+export const EVIDENCE_TYPE_LEXICON: Record<string, string[]> = {
+  example: ["for example", "for instance", "such as", "e.g", "consider the case"],
+  data: ["percent", "statistics", "data", "survey", "measured", "rate of", "per cent"],
+  authority: [
+    "according to", "research shows", "studies show", "experts", "scholars", "a study",
+    "researchers", "reported by",
+  ],
+  analogy: ["just as", "similar to", "is like", "likewise", "analogous", "in the same way"],
+  counterexample: ["counterexample", "not always", "an exception", "does not apply to"],
+  experience: [
+    "in my experience", "when i", "i remember", "i once", "i have seen", "personally", "my own",
+  ],
+  theory: ["theory", "principle", "framework", "in principle", "the law of"],
+};
+
+// Numeric data patterns ("45%", "3.2 million", "in 1998").
+const DATA_NUMERIC = /\b\d+(?:\.\d+)?\s?(?:%|percent\b)|\b\d{2,}(?:,\d{3})*(?:\.\d+)?\b/g;
+
+const STOPWORDS = new Set(
+  (
+    "a an the and or but if then else of to in on at by for with from as is are was were be been being " +
+    "it its this that these those there here i me my we our you your he she they them their his her " +
+    "not no so do does did have has had can could would should will shall may might must about into " +
+    "than too very also just only more most some such what which who whom whose when where why how " +
+    "all any each both few other own same up down out over under again further once"
+  ).split(" ")
+);
+
+/* =========================
+   Text helpers
+========================= */
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function phraseRegex(phrase: string): RegExp {
+  let re = regexCache.get(phrase);
+  if (!re) {
+    re = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, "gu");
+    regexCache.set(phrase, re);
+  }
+  re.lastIndex = 0;
+  return re;
+}
+
+function countPhrase(lower: string, phrase: string): number {
+  const m = lower.match(phraseRegex(phrase));
+  return m ? m.length : 0;
+}
+
+function countAny(lower: string, phrases: string[]): number {
+  let n = 0;
+  for (const p of phrases) n += countPhrase(lower, p);
+  return n;
+}
+
+function hasAny(lower: string, phrases: string[]): boolean {
+  return phrases.some((p) => countPhrase(lower, p) > 0);
+}
+
+function words(s: string): string[] {
+  return s.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? [];
+}
+
+// Light plural folding so "city"/"cities" and "car"/"cars" share a form.
+function foldPlural(w: string): string {
+  if (w.length > 4 && w.endsWith("ies")) return w.slice(0, -3) + "y";
+  if (w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) return w.slice(0, -1);
+  return w;
+}
+
+function contentWords(s: string): Set<string> {
+  const out = new Set<string>();
+  for (const w of words(s.toLowerCase())) {
+    if (w.length < 3 || STOPWORDS.has(w)) continue;
+    out.add(foldPlural(w));
+  }
+  return out;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter += 1;
+  return inter / (a.size + b.size - inter);
+}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  for (const x of a) if (b.has(x)) return true;
+  return false;
+}
+
+export function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?。])\s+/u)
+    .map((s) => s.trim())
+    .filter((s) => words(s).length > 0);
+}
+
+/**
+ * segmentUnits
+ * - Paragraphs first; a single paragraph is chunked by sentences.
+ * - Returns units as sentence lists (never empty units).
+ */
+export function segmentUnits(text: string): string[][] {
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => splitSentences(p))
+    .filter((p) => p.length > 0);
+
+  if (paragraphs.length !== 1) return paragraphs;
+
+  const sentences = paragraphs[0];
+  if (sentences.length <= SENTENCES_PER_UNIT) return paragraphs;
+
+  const units: string[][] = [];
+  for (let i = 0; i < sentences.length; i += SENTENCES_PER_UNIT) {
+    units.push(sentences.slice(i, i + SENTENCES_PER_UNIT));
+  }
+  return units;
+}
+
+/** Transition type of a sentence, if a connective opens it. */
+function leadingTransition(lower: string): TransitionType | null {
+  const head = words(lower).slice(0, TRANSITION_WINDOW_TOKENS).join(" ");
+  let best: { type: TransitionType; at: number } | null = null;
+  for (const type of Object.keys(TRANSITION_LEXICON) as TransitionType[]) {
+    for (const p of TRANSITION_LEXICON[type]) {
+      const re = phraseRegex(p);
+      const m = re.exec(head);
+      if (m && (!best || m.index < best.at)) best = { type, at: m.index };
+    }
+  }
+  return best ? best.type : null;
+}
+
+/* =========================
+   Extraction
+========================= */
+
+type SentenceInfo = {
+  unit: number;
+  lower: string;
+  content: Set<string>;
+};
+
+export function extractRawFeaturesLocal(text: string): LocalRawFeatures {
+  const unitsS = segmentUnits(String(text ?? ""));
+  const U = unitsS.length;
+
+  const zeros = () => new Array<number>(U).fill(0);
+  const pu = {
+    transitions: zeros(),
+    transition_ok: zeros(),
+    revisions: zeros(),
+    revision_depth: zeros(),
+    belief_change: zeros(),
+    claims: zeros(),
+    reasons: zeros(),
+    evidence: zeros(),
+    sub_claims: zeros(),
+    warrants: zeros(),
+    counterpoints: zeros(),
+    refutations: zeros(),
+  };
+
+  const unitLengths = unitsS.map((u) => u.reduce((n, s) => n + words(s).length, 0));
+
+  const evidenceTypes: Record<string, number> = {};
+  for (const k of Object.keys(EVIDENCE_TYPE_LEXICON)) evidenceTypes[k] = 0;
+
+  const transitionTypes: TransitionType[] = [];
+  let hedges = 0;
+  let intentMarkers = 0;
+  let selfReg = 0;
+  let loops = 0;
+  let adjacencyLinks = 0;
+
+  const sentences: SentenceInfo[] = [];
+  unitsS.forEach((u, ui) => {
+    for (const s of u) sentences.push({ unit: ui, lower: s.toLowerCase(), content: contentWords(s) });
+  });
+
+  for (let i = 0; i < sentences.length; i++) {
+    const { unit: ui, lower, content } = sentences[i];
+    const prev = i > 0 ? sentences[i - 1] : null;
+
+    // Transitions (sentence-initial connectives only)
+    const tType = leadingTransition(lower);
+    if (tType) {
+      pu.transitions[ui] += 1;
+      if (!transitionTypes.includes(tType)) transitionTypes.push(tType);
+
+      // OK when there is an antecedent it can connect to: either lexical cohesion with the
+      // previous two sentences, or a purely structural connective (sequence/example).
+      const back = sentences.slice(Math.max(0, i - 2), i);
+      const cohesive = back.some((b) => overlaps(b.content, content));
+      if (i > 0 && (cohesive || tType === "sequence" || tType === "example")) {
+        pu.transition_ok[ui] += 1;
+      }
+    }
+
+    // Argument atoms
+    if (hasAny(lower, CLAIM_MARKERS)) pu.claims[ui] += 1;
+    pu.reasons[ui] += countAny(lower, REASON_MARKERS);
+    pu.warrants[ui] += countAny(lower, WARRANT_MARKERS);
+    if (hasAny(lower, SUB_CLAIM_MARKERS)) pu.sub_claims[ui] += 1;
+    if (hasAny(lower, COUNTERPOINT_MARKERS)) pu.counterpoints[ui] += 1;
+    if (hasAny(lower, REFUTATION_MARKERS)) pu.refutations[ui] += 1;
+
+    // Evidence (one evidence item per sentence, typed by every matching lexicon)
+    let isEvidence = false;
+    for (const [type, phrases] of Object.entries(EVIDENCE_TYPE_LEXICON)) {
+      let hits = countAny(lower, phrases);
+      if (type === "data") hits += (lower.match(DATA_NUMERIC) ?? []).length;
+      if (hits > 0) {
+        evidenceTypes[type] += 1;
+        isEvidence = true;
+      }
+    }
+    if (isEvidence) pu.evidence[ui] += 1;
+
+    // Revisions
+    const belief = countAny(lower, REVISION_BELIEF_MARKERS);
+    const local = countAny(lower, REVISION_LOCAL_MARKERS);
+    if (belief + local > 0) {
+      pu.revisions[ui] += belief + local;
+      pu.revision_depth[ui] += belief * REVISION_DEPTH_BELIEF + local * REVISION_DEPTH_LOCAL;
+      if (belief > 0) pu.belief_change[ui] = 1;
+    }
+
+    // Regulation layer
+    hedges += countAny(lower, HEDGE_MARKERS);
+    if (hasAny(lower, INTENT_MARKERS)) intentMarkers += 1;
+    selfReg += countAny(lower, SELF_REGULATION_MARKERS);
+
+    // Loops: near-duplicate restatement of an earlier sentence
+    if (content.size >= 4 && sentences.slice(0, i).some((s) => jaccard(s.content, content) >= LOOP_JACCARD)) {
+      loops += 1;
+    }
+
+    // Adjacency: consecutive sentences linked lexically or by a connective
+    if (prev && (tType || overlaps(prev.content, content))) adjacencyLinks += 1;
+  }
+
+  // A unit with no explicit claim marker still asserts its topic sentence.
+  for (let ui = 0; ui < U; ui++) {
+    if (pu.claims[ui] === 0 && unitsS[ui].length > 0) pu.claims[ui] = 1;
+  }
+
+  // Drift: a unit sharing no content word with the rest of the text
+  let driftSegments = 0;
+  if (U >= 3) {
+    const unitContent = unitsS.map((u) => contentWords(u.join(" ")));
+    for (let ui = 0; ui < U; ui++) {
+      if (unitContent[ui].size < DRIFT_MIN_VOCAB) continue;
+      const rest = new Set<string>();
+      unitContent.forEach((c, j) => {
+        if (j !== ui) c.forEach((w) => rest.add(w));
+      });
+      if (!overlaps(unitContent[ui], rest)) driftSegments += 1;
+    }
+  }
+
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+  const claims = sum(pu.claims);
+  const subClaims = sum(pu.sub_claims);
+  const warrants = sum(pu.warrants);
+  const counterpoints = sum(pu.counterpoints);
+  const refutations = sum(pu.refutations);
+  const revisionDepthSum = Math.round(sum(pu.revision_depth) * 100) / 100;
+
+  const structureType: StructureTypeV1 =
+    subClaims >= 2 && counterpoints + refutations >= 2
+      ? "networked"
+      : subClaims >= 2 || (claims > 0 && warrants >= claims)
+        ? "hierarchical"
+        : "linear";
+
+  return {
+    layer_0: {
+      units: U,
+      unit_lengths: unitLengths,
+      per_unit: pu,
+      claims,
+      reasons: sum(pu.reasons),
+      evidence: sum(pu.evidence),
+    },
+    layer_1: {
+      sub_claims: subClaims,
+      warrants,
+      counterpoints,
+      refutations,
+      structure_type: structureType,
+    },
+    layer_2: {
+      transitions: sum(pu.transitions),
+      transition_types: transitionTypes,
+      transition_ok: sum(pu.transition_ok),
+      revisions: sum(pu.revisions),
+      revision_depth_sum: revisionDepthSum,
+      belief_change: pu.belief_change.some((x) => x > 0),
+    },
+    layer_3: {
+      intent_markers: intentMarkers,
+      drift_segments: driftSegments,
+      hedges,
+      loops,
+      self_regulation_signals: selfReg,
+    },
+    evidence_types: evidenceTypes,
+    adjacency_links: adjacencyLinks,
+    backend_reserved: {
+      kpf_sim: null,
+      tps_h: null,
+    },
+  };
+}
+
+/**
+ * extractAnalysisInputLocal
+ * - raw_features from text, rsl_rubric derived from those raw features
+ *   (no model rubric exists offline).
+ */
+export function extractAnalysisInputLocal(text: string): LocalAnalysisInput {
+  const raw_features = extractRawFeaturesLocal(text);
+  return {
+    raw_features,
+    rsl_rubric: computeRslRubric4FromRaw(raw_features),
+  };
+}
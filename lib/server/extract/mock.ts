@@ -0,0 +1,55 @@
+// lib/server/extract/mock.ts
+// Recorded-fixture stand-in for a model-backed FeatureExtractor.
+//
+// - Replays raw model responses from lib/fixtures/recorded_extractions_v1.json
+//   through the same repair/retry loop as a real provider (runModelExtraction).
+// - Deterministic: a recording whose text_sha256 matches the submitted text is used;
+//   otherwise the recording is picked by hash(text) modulo the recording count.
+// - Attempt N replays responses[N-1] (the last response repeats).
+
+import { createHash } from "crypto";
+
+import { createModelExtractor, type FeatureExtractor, type ModelTransport, type RetryOptions } from "./provider";
+
+// Static import to avoid Vercel/serverless filesystem pitfalls.
+import recorded from "../../fixtures/recorded_extractions_v1.json";
+
+export const MOCK_EXTRACTOR_NAME = "mock-recorded-v1";
+
+export type RecordedExtraction = {
+  id: string;
+  note?: string;
+  text_sha256: string | null;
+  responses: string[];
+};
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function pickRecording(text: string, recordings: RecordedExtraction[]): RecordedExtraction {
+  if (recordings.length === 0) throw new Error("No recorded extractions available");
+
+  const h = sha256(text.trim());
+  const exact = recordings.find((r) => r.text_sha256 === h);
+  if (exact) return exact;
+
+  return recordings[parseInt(h.slice(0, 8), 16) % recordings.length];
+}
+
+export function createRecordedTransport(recordings: RecordedExtraction[]): ModelTransport {
+  return async (prompt, attempt) => {
+    // The prompt embeds the text between <text> tags; recover it for selection.
+    const m = /<text>\n([\s\S]*)\n<\/text>/.exec(prompt.user);
+    const rec = pickRecording(m ? m[1] : prompt.user, recordings);
+    const i = Math.min(Math.max(0, attempt - 1), rec.responses.length - 1);
+    return rec.responses[i];
+  };
+}
+
+export function createMockFeatureExtractor(
+  recordings: RecordedExtraction[] = (recorded as { recordings: RecordedExtraction[] }).recordings,
+  opts: RetryOptions = { base_delay_ms: 0 }
+): FeatureExtractor {
+  return createModelExtractor(MOCK_EXTRACTOR_NAME, createRecordedTransport(recordings), opts);
+}
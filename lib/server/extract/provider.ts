@@ -0,0 +1,331 @@
+// lib/server/extract/provider.ts
+// Feature-extraction provider contract.
+//
+// A FeatureExtractor turns submitted text into:
+//   - analysis_input.raw_features   (layer_0..layer_3, evidence_types, adjacency_links)
+//   - analysis_input.rsl_rubric     (coherence/structure/evaluation/integration, 0..5)
+//   - narrative_text.rsl            (summary + R1..R8 dimensions)
+//
+// Model-backed providers share one prompt/response-schema contract and the same
+// retry + JSON-repair loop (runModelExtraction). Only the transport differs.
+
+import { extractAnalysisInputLocal, LOCAL_EXTRACTOR_VERSION } from "./local";
+import type { NarrativeRsl } from "../envelope";
+import { validateAnalysisInput, validateNarrativeRsl, type AnalysisInputV1 } from "../schema";
+
+export type FeatureExtractionRequest = {
+  text: string;
+  input_language?: string;
+};
+
+export type FeatureExtractionResult = {
+  analysis_input: AnalysisInputV1;
+  narrative_text?: { rsl?: NarrativeRsl };
+  provider: string;
+  attempts: number;
+  repaired: boolean;
+};
+
+export interface FeatureExtractor {
+  readonly name: string;
+  extract(req: FeatureExtractionRequest): Promise<FeatureExtractionResult>;
+}
+
+/** Raw completion call. Returns the model's text output (expected to be JSON). */
+export type ModelTransport = (prompt: FeatureExtractionPrompt, attempt: number) => Promise<string>;
+
+export class FeatureExtractionError extends Error {
+  attempts: number;
+  causes: string[];
+
+  constructor(message: string, attempts: number, causes: string[]) {
+    super(message);
+    this.name = "FeatureExtractionError";
+    this.attempts = attempts;
+    this.causes = causes;
+  }
+}
+
+/* =========================
+   1) Prompt / response contract
+========================= */
+
+export const FEATURE_EXTRACTION_CONTRACT_VERSION = "feature-extraction-v1";
+
+const COUNT = { type: "integer", minimum: 0 } as const;
+const COUNT_ARRAY = { type: "array", items: { type: "number", minimum: 0 } } as const;
+
+export const FEATURE_EXTRACTION_RESPONSE_SCHEMA = {
+  type: "object",
+  required: ["raw_features", "rsl_rubric", "narrative"],
+  properties: {
+    raw_features: {
+      type: "object",
+      required: ["layer_0", "layer_1", "layer_2", "layer_3", "evidence_types", "adjacency_links"],
+      properties: {
+        layer_0: {
+          type: "object",
+          required: ["units", "unit_lengths", "per_unit", "claims", "reasons", "evidence"],
+          properties: {
+            units: { type: "integer", minimum: 1 },
+            unit_lengths: COUNT_ARRAY,
+            per_unit: {
+              type: "object",
+              required: ["transitions", "revisions"],
+              properties: { transitions: COUNT_ARRAY, revisions: COUNT_ARRAY },
+            },
+            claims: COUNT,
+            reasons: COUNT,
+            evidence: COUNT,
+          },
+        },
+        layer_1: {
+          type: "object",
+          required: ["sub_claims", "warrants", "counterpoints", "refutations", "structure_type"],
+          properties: {
+            sub_claims: COUNT,
+            warrants: COUNT,
+            counterpoints: COUNT,
+            refutations: COUNT,
+            structure_type: { enum: ["linear", "hierarchical", "networked", null] },
+          },
+        },
+        layer_2: {
+          type: "object",
+          required: ["transitions", "transition_types", "transition_ok", "revisions", "revision_depth_sum", "belief_change"],
+          properties: {
+            transitions: COUNT,
+            transition_types: { type: "array", items: { type: "string" } },
+            transition_ok: COUNT,
+            revisions: COUNT,
+            revision_depth_sum: { type: "number", minimum: 0 },
+            belief_change: { type: "boolean" },
+          },
+        },
+        layer_3: {
+          type: "object",
+          required: ["intent_markers", "drift_segments", "hedges", "loops", "self_regulation_signals"],
+          properties: {
+            intent_markers: COUNT,
+            drift_segments: COUNT,
+            hedges: COUNT,
+            loops: COUNT,
+            self_regulation_signals: COUNT,
+          },
+        },
+        evidence_types: { type: "object", additionalProperties: COUNT },
+        adjacency_links: COUNT,
+      },
+    },
+    rsl_rubric: {
+      type: "object",
+      required: ["coherence", "structure", "evaluation", "integration"],
+      properties: {
+        coherence: { type: "number", minimum: 0, maximum: 5 },
+        structure: { type: "number", minimum: 0, maximum: 5 },
+        evaluation: { type: "number", minimum: 0, maximum: 5 },
+        integration: { type: "number", minimum: 0, maximum: 5 },
+      },
+    },
+    narrative: {
+      type: "object",
+      required: ["summary", "dimensions"],
+      properties: {
+        summary: {
+          type: "object",
+          required: ["one_line", "paragraph"],
+          properties: { one_line: { type: "string" }, paragraph: { type: "string" } },
+        },
+        dimensions: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["code", "label", "score_1to5", "observation"],
+            properties: {
+              code: { enum: ["R1", "R2", "R3", "R4", "R5", "R6", "R7", "R8"] },
+              label: { type: "string" },
+              score_1to5: { type: "number", minimum: 1, maximum: 5 },
+              observation: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export type FeatureExtractionPrompt = {
+  contract_version: string;
+  system: string;
+  user: string;
+  response_schema: typeof FEATURE_EXTRACTION_RESPONSE_SCHEMA;
+};
+
+const SYSTEM_PROMPT = [
+  "You annotate the reasoning structure of a text. You do not score or judge the writer.",
+  "Return ONLY one JSON object that matches the response schema. No prose, no code fences.",
+  "Rules:",
+  "- Units are paragraphs. layer_0.units is the paragraph count.",
+  "- unit_lengths and every per_unit array have exactly `units` entries (word counts / event counts per paragraph).",
+  "- All counts are non-negative integers observed in the text. Never estimate beyond the text.",
+  "- evidence_types maps each type (example, data, authority, analogy, counterexample, experience, theory) to a count.",
+  "- rsl_rubric dimensions are 0..5. narrative.dimensions lists R1..R8 with score_1to5 and one observation each.",
+  "- Do not compute backend indicators (AAS, CTF, RMD, RDX, EDS, IFD, KPF, TPS).",
+].join("\n");
+
+export function buildFeatureExtractionPrompt(req: FeatureExtractionRequest): FeatureExtractionPrompt {
+  const lang = req.input_language ?? "EN";
+  return {
+    contract_version: FEATURE_EXTRACTION_CONTRACT_VERSION,
+    system: SYSTEM_PROMPT,
+    user: `Input language: ${lang}\n\n<text>\n${req.text}\n</text>`,
+    response_schema: FEATURE_EXTRACTION_RESPONSE_SCHEMA,
+  };
+}
+
+/* =========================
+   2) JSON repair
+========================= */
+
+/**
+ * repairJson
+ * - Tolerates the common ways a model breaks JSON output:
+ *   code fences, leading/trailing prose, smart quotes, trailing commas,
+ *   NaN/undefined literals.
+ * - Returns null when no parseable object can be recovered.
+ */
+export function repairJson(text: string): { value: any; repaired: boolean } | null {
+  const s0 = String(text ?? "").trim();
+
+  try {
+    return { value: JSON.parse(s0), repaired: false };
+  } catch {
+    // fall through to repair
+  }
+
+  let s = s0.replace(/^```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+
+  const start = s.indexOf("{");
+  const end = s.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  s = s.slice(start, end + 1);
+
+  s = s
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, "$1")
+    .replace(/:\s*(NaN|undefined|-?Infinity)\b/g, ": null");
+
+  try {
+    return { value: JSON.parse(s), repaired: true };
+  } catch {
+    return null;
+  }
+}
+
+/* =========================
+   3) Response check (contract-level)
+========================= */
+
+function isObj(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+/** Returns a list of contract violations (empty when acceptable). */
+export function checkExtractionResponse(v: any): string[] {
+  const errs: string[] = [];
+  if (!isObj(v)) return ["response is not an object"];
+
+  // raw_features / rsl_rubric: same schema as submitted envelopes
+  const res = validateAnalysisInput({ raw_features: v.raw_features, rsl_rubric: v.rsl_rubric });
+  if (!res.ok) {
+    for (const e of res.errors) errs.push(`${e.path} ${e.message}`);
+  }
+
+  // narrative is required by FEATURE_EXTRACTION_RESPONSE_SCHEMA
+  for (const e of validateNarrativeRsl(v.narrative, "narrative", true)) errs.push(`${e.path} ${e.message}`);
+  return errs;
+}
+
+/* =========================
+   4) Retry loop (shared by model-backed providers)
+========================= */
+
+export type RetryOptions = {
+  max_attempts?: number; // default 3
+  base_delay_ms?: number; // default 400, doubled per attempt
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export async function runModelExtraction(
+  name: string,
+  transport: ModelTransport,
+  req: FeatureExtractionRequest,
+  opts?: RetryOptions
+): Promise<FeatureExtractionResult> {
+  const maxAttempts = Math.max(1, opts?.max_attempts ?? 3);
+  const baseDelay = Math.max(0, opts?.base_delay_ms ?? 400);
+  const prompt = buildFeatureExtractionPrompt(req);
+  const causes: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1 && baseDelay > 0) await sleep(baseDelay * 2 ** (attempt - 2));
+
+    let text: string;
+    try {
+      text = await transport(prompt, attempt);
+    } catch (e) {
+      causes.push(`attempt ${attempt}: transport error: ${(e as Error)?.message ?? String(e)}`);
+      continue;
+    }
+
+    const parsed = repairJson(text);
+    if (!parsed) {
+      causes.push(`attempt ${attempt}: response is not parseable JSON`);
+      continue;
+    }
+
+    const errs = checkExtractionResponse(parsed.value);
+    if (errs.length) {
+      causes.push(`attempt ${attempt}: ${errs.join("; ")}`);
+      continue;
+    }
+
+    const v = parsed.value;
+    return {
+      analysis_input: { raw_features: v.raw_features, rsl_rubric: v.rsl_rubric },
+      narrative_text: { rsl: v.narrative },
+      provider: name,
+      attempts: attempt,
+      repaired: parsed.repaired,
+    };
+  }
+
+  throw new FeatureExtractionError(`${name}: feature extraction failed after ${maxAttempts} attempts`, maxAttempts, causes);
+}
+
+export function createModelExtractor(name: string, transport: ModelTransport, opts?: RetryOptions): FeatureExtractor {
+  return {
+    name,
+    extract: (req) => runModelExtraction(name, transport, req, opts),
+  };
+}
+
+/* =========================
+   5) Local rule-based provider
+========================= */
+
+export const localFeatureExtractor: FeatureExtractor = {
+  name: LOCAL_EXTRACTOR_VERSION,
+  async extract(req) {
+    return {
+      analysis_input: extractAnalysisInputLocal(req.text),
+      provider: LOCAL_EXTRACTOR_VERSION,
+      attempts: 1,
+      repaired: false,
+    };
+  },
+};
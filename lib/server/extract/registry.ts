@@ -0,0 +1,39 @@
+// lib/server/extract/registry.ts
+// Selects the FeatureExtractor used for text-only submissions.
+//
+// ENV NP_EXTRACTOR
+// - "local" (default)  rule-based lexicon extractor, no network
+// - "mock"             recorded model responses (lib/fixtures/recorded_extractions_v1.json)
+// - "model"            OpenAI-compatible endpoint (see http.ts for NP_MODEL_* settings)
+
+import { createHttpChatTransport, httpTransportConfigFromEnv } from "./http";
+import { createMockFeatureExtractor } from "./mock";
+import {
+  createModelExtractor,
+  FeatureExtractionError,
+  localFeatureExtractor,
+  type FeatureExtractor,
+} from "./provider";
+
+export type ExtractorKind = "local" | "mock" | "model";
+
+export const MODEL_EXTRACTOR_NAME = "model-http-v1";
+
+export function getFeatureExtractor(kind: string | undefined = process.env.NP_EXTRACTOR): FeatureExtractor {
+  switch ((kind ?? "local").toLowerCase()) {
+    case "mock":
+      return createMockFeatureExtractor();
+    case "model": {
+      const cfg = httpTransportConfigFromEnv();
+      if (!cfg) {
+        // Misconfiguration surfaces like any extraction failure (502 extraction_failed), not a bare 500
+        const msg = "NP_EXTRACTOR=model requires NP_MODEL_API_URL, NP_MODEL_API_KEY and NP_MODEL_NAME";
+        throw new FeatureExtractionError(msg, 0, [msg]);
+      }
+      return createModelExtractor(MODEL_EXTRACTOR_NAME, createHttpChatTransport(cfg));
+    }
+    case "local":
+    default:
+      return localFeatureExtractor;
+  }
+}
@@ -0,0 +1,173 @@
+// lib/server/models.ts
+// Versioned logistic models for the Reasoning Control Distribution (rc.ts),
+// plus named RC centroid profiles (centroids + band cutoffs per cohort).
+//
+// - Model files live in lib/models/rc/<version>.json (beta0, betas per CFVKey, z_clip);
+//   every such file is registered on first use (the file name must match its version).
+// - New files come from `npm run train:rc` (scripts/train-rc-model.mjs).
+// - Active version: env NP_RC_MODEL_VERSION, else DEFAULT_RC_MODEL_VERSION ("neutral",
+//   p_human = 0.5) until a fitted model is chosen. Priors (source "prior") are opt-in only.
+// - Centroid profiles: BUILTIN_CENTROID_PROFILE ("default") + lib/models/rc/centroid_profiles.json,
+//   selected per tenant/request via policy.rc.centroid_profile.
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  BUILTIN_CENTROID_PROFILE,
+  CONTROL_PATTERNS,
+  DEFAULT_LOGISTIC_MODEL,
+  type CFVKey,
+  type ControlPattern,
+  type LogisticModel,
+  type RcCentroidProfile,
+} from "./derive/rc";
+
+// Static import to avoid Vercel/serverless filesystem pitfalls.
+import centroidProfilesFile from "../models/rc/centroid_profiles.json";
+
+export const CFV_KEYS: CFVKey[] = ["aas", "ctf", "rmd", "rdx", "eds", "hi", "tps_hist", "ifd"];
+
+export const DEFAULT_RC_MODEL_VERSION = "neutral";
+
+const MODEL_DIR = path.join(process.cwd(), "lib", "models", "rc");
+const CENTROID_PROFILES_FILE = "centroid_profiles.json";
+
+export type LogisticModelFile = LogisticModel & {
+  version: string;
+  created_at?: string;
+  source?: "prior" | "fitted";
+  notes?: string;
+  training?: Record<string, unknown>;
+};
+
+function isFiniteNumber(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x);
+}
+
+/** Throws on malformed model files (checked once, when the registry is built). */
+export function validateLogisticModel(x: unknown): LogisticModelFile {
+  const m = x as LogisticModelFile;
+  const where = `rc model ${typeof m?.version === "string" ? m.version : "(no version)"}`;
+
+  if (!m || typeof m !== "object") throw new Error("rc model: must be an object");
+  if (typeof m.version !== "string" || !m.version) throw new Error(`${where}: version is required`);
+  if (!isFiniteNumber(m.beta0)) throw new Error(`${where}: beta0 must be a finite number`);
+  if (!m.betas || typeof m.betas !== "object") throw new Error(`${where}: betas must be an object`);
+
+  for (const [k, v] of Object.entries(m.betas)) {
+    if (!CFV_KEYS.includes(k as CFVKey)) throw new Error(`${where}: unknown CFV key "${k}"`);
+    if (!isFiniteNumber(v)) throw new Error(`${where}: betas.${k} must be a finite number`);
+  }
+  if (m.z_clip !== undefined && (!isFiniteNumber(m.z_clip) || m.z_clip <= 0)) {
+    throw new Error(`${where}: z_clip must be a positive number`);
+  }
+  return m;
+}
+
+// Built on first use, like the centroid profiles below (rc.ts imports this module).
+let MODELS: Record<string, LogisticModelFile> | null = null;
+
+function logisticModels(): Record<string, LogisticModelFile> {
+  if (MODELS) return MODELS;
+  const out: Record<string, LogisticModelFile> = {
+    [DEFAULT_RC_MODEL_VERSION]: { ...DEFAULT_LOGISTIC_MODEL, version: DEFAULT_RC_MODEL_VERSION, notes: "Neutral (p_human = 0.5)" },
+  };
+  const files = readdirSync(MODEL_DIR).filter((f) => f.endsWith(".json") && f !== CENTROID_PROFILES_FILE);
+  for (const f of files.sort()) {
+    const m = validateLogisticModel(JSON.parse(readFileSync(path.join(MODEL_DIR, f), "utf8")));
+    if (f !== `${m.version}.json`) throw new Error(`rc model ${m.version}: file name must be ${m.version}.json (got ${f})`);
+    if (out[m.version]) throw new Error(`rc model ${m.version}: duplicate version`);
+    out[m.version] = m;
+  }
+  return (MODELS = out);
+}
+
+export function listLogisticModelVersions(): string[] {
+  return Object.keys(logisticModels());
+}
+
+export function getLogisticModel(version = process.env.NP_RC_MODEL_VERSION || DEFAULT_RC_MODEL_VERSION): LogisticModelFile {
+  const m = logisticModels()[version];
+  if (!m) {
+    throw new Error(`Unknown rc model version "${version}" (available: ${listLogisticModelVersions().join(", ")})`);
+  }
+  return m;
+}
+
+/* =========================
+   Centroid profiles (validated at load)
+========================= */
+
+const PATTERN_META_FIELDS = ["pattern_description", "pattern_interpretation", "band_rationale"];
+
+function isUnit(x: unknown): x is number {
+  return isFiniteNumber(x) && x >= 0 && x <= 1;
+}
+
+/** Throws unless every ControlPattern has an A/D/R centroid and cutoffs are ordered. */
+export function validateCentroidProfile(name: string, x: unknown): RcCentroidProfile {
+  const p = x as Omit<RcCentroidProfile, "name">;
+  const where = `rc centroid profile ${name}`;
+
+  if (!p || typeof p !== "object") throw new Error(`${where}: must be an object`);
+  if (!p.centroids || typeof p.centroids !== "object") throw new Error(`${where}: centroids must be an object`);
+
+  for (const k of Object.keys(p.centroids)) {
+    if (!CONTROL_PATTERNS.includes(k as ControlPattern)) throw new Error(`${where}: unknown control pattern "${k}"`);
+  }
+  for (const cp of CONTROL_PATTERNS) {
+    const c = p.centroids[cp];
+    if (!c) throw new Error(`${where}: missing centroid for ${cp}`);
+    if (!isUnit(c.A) || !isUnit(c.D) || !isUnit(c.R)) {
+      throw new Error(`${where}: centroids.${cp} needs A, D, R within 0..1`);
+    }
+  }
+
+  const bc = p.band_cutoffs;
+  if (!bc || !isFiniteNumber(bc.high) || !isFiniteNumber(bc.medium) || bc.high <= 0 || bc.medium <= bc.high) {
+    throw new Error(`${where}: band_cutoffs must satisfy 0 < high < medium`);
+  }
+  if (!isFiniteNumber(p.borderline_margin) || p.borderline_margin < 0) {
+    throw new Error(`${where}: borderline_margin must be a non-negative number`);
+  }
+
+  if (p.pattern_meta !== undefined) {
+    if (!p.pattern_meta || typeof p.pattern_meta !== "object") throw new Error(`${where}: pattern_meta must be an object`);
+    for (const [cp, meta] of Object.entries(p.pattern_meta)) {
+      if (!CONTROL_PATTERNS.includes(cp as ControlPattern)) {
+        throw new Error(`${where}: pattern_meta has unknown control pattern "${cp}"`);
+      }
+      for (const [k, v] of Object.entries(meta ?? {})) {
+        if (!PATTERN_META_FIELDS.includes(k) || typeof v !== "string") {
+          throw new Error(`${where}: pattern_meta.${cp}.${k} must be one of ${PATTERN_META_FIELDS.join(", ")} (string)`);
+        }
+      }
+    }
+  }
+  return { ...p, name };
+}
+
+// Built on first use: rc.ts imports this module, so its exports are not ready at load.
+let CENTROID_PROFILES: Record<string, RcCentroidProfile> | null = null;
+
+function centroidProfiles(): Record<string, RcCentroidProfile> {
+  if (CENTROID_PROFILES) return CENTROID_PROFILES;
+  const out: Record<string, RcCentroidProfile> = { [BUILTIN_CENTROID_PROFILE.name]: BUILTIN_CENTROID_PROFILE };
+  for (const [name, p] of Object.entries(centroidProfilesFile.profiles as Record<string, unknown>)) {
+    if (out[name]) throw new Error(`rc centroid profile ${name}: duplicate name`);
+    out[name] = validateCentroidProfile(name, p);
+  }
+  return (CENTROID_PROFILES = out);
+}
+
+export function listCentroidProfiles(): string[] {
+  return Object.keys(centroidProfiles());
+}
+
+export function getCentroidProfile(name = BUILTIN_CENTROID_PROFILE.name): RcCentroidProfile {
+  const p = centroidProfiles()[name];
+  if (!p) {
+    throw new Error(`Unknown rc centroid profile "${name}" (available: ${listCentroidProfiles().join(", ")})`);
+  }
+  return p;
+}
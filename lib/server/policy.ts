@@ -0,0 +1,333 @@
+// lib/server/policy.ts
+// Analysis policy: per-tenant defaults + per-request overrides.
+//
+// Resolution order (later wins):
+//   1) DEFAULT_ANALYSIS_POLICY
+//   2) tenant policy from lib/config/tenants.json
+//      (tenant from header x-np-tenant or body.tenant_id; default_tenant otherwise)
+//   3) request override (body.policy)
+//
+// The effective policy is echoed in report meta.policy.
+// RSL level presets (flags + gates) are named in policy.rsl.level_policy and
+// loaded from lib/config/rsl_level_policies.json.
+
+import type { RoleConfig } from "./derive/rfs";
+import type { RSLLevelFlags, RSLLevelPolicy, RubricBlendMode } from "./derive/rsl";
+import { listCentroidProfiles } from "./models";
+import type { TenantJobCatalog } from "./roles";
+import type { ValidationIssue, ValidationResult } from "./schema";
+
+// Static imports to avoid Vercel/serverless filesystem pitfalls.
+import tenantsConfig from "../config/tenants.json";
+import rslLevelPoliciesConfig from "../config/rsl_level_policies.json";
+
+export type T2Mode = "Regulation" | "MetacogRaw";
+
+export type AnalysisPolicy = {
+  cff: {
+    t2_mode: T2Mode;
+    // true forces the Human track (Hx / Ax types never assigned)
+    conservative_lock_ai_hybrid: boolean;
+  };
+  rc: {
+    // named centroid set + band cutoffs (lib/server/models.ts)
+    centroid_profile: string;
+  };
+  rsl: {
+    // named RSL level preset (lib/config/rsl_level_policies.json)
+    level_policy: string;
+    // supplied rsl_rubric vs rubric derived from raw_features
+    rubric_tolerance: number; // 0..5
+    rubric_blend: RubricBlendMode;
+    rubric_raw_weight: number; // 0..1
+    // cohort percentile withheld below this many scores
+    cohort_min_size: number;
+  };
+};
+
+export type AnalysisPolicyOverride = {
+  cff?: Partial<AnalysisPolicy["cff"]>;
+  rc?: Partial<AnalysisPolicy["rc"]>;
+  rsl?: Partial<AnalysisPolicy["rsl"]>;
+};
+
+export type TenantConfig = {
+  name?: string;
+  policy?: AnalysisPolicyOverride;
+  // merged over the built-in role catalog by role_code (validated in lib/server/roles.ts)
+  role_configs?: RoleConfig[];
+  // tenant job groups extending or replacing the built-in 15 (validated in lib/server/roles.ts)
+  job_catalog?: TenantJobCatalog;
+};
+
+export type ResolvedPolicy = {
+  tenant_id: string;
+  policy: AnalysisPolicy;
+};
+
+export const DEFAULT_ANALYSIS_POLICY: AnalysisPolicy = {
+  cff: {
+    t2_mode: "Regulation",
+    conservative_lock_ai_hybrid: true,
+  },
+  rc: {
+    centroid_profile: "default",
+  },
+  rsl: {
+    level_policy: "default",
+    rubric_tolerance: 1.0,
+    rubric_blend: "off",
+    rubric_raw_weight: 0.5,
+    cohort_min_size: 10,
+  },
+};
+
+export const TENANT_HEADER = "x-np-tenant";
+
+export class PolicyError extends Error {
+  code: string;
+  details?: ValidationIssue[];
+
+  constructor(code: string, message: string, details?: ValidationIssue[]) {
+    super(message);
+    this.name = "PolicyError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/* =========================
+   Validation
+========================= */
+
+function isObj(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+export function validatePolicyOverride(x: unknown, base = "policy"): ValidationResult<AnalysisPolicyOverride> {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObj(x)) {
+    errors.push({ path: base, message: "must be an object" });
+    return { ok: false, errors };
+  }
+
+  for (const k of Object.keys(x)) {
+    if (k !== "cff" && k !== "rc" && k !== "rsl") errors.push({ path: `${base}.${k}`, message: "is not a known policy section" });
+  }
+
+  if (x.cff !== undefined) {
+    if (!isObj(x.cff)) {
+      errors.push({ path: `${base}.cff`, message: "must be an object" });
+    } else {
+      for (const [k, v] of Object.entries(x.cff)) {
+        if (k === "t2_mode") {
+          if (v !== "Regulation" && v !== "MetacogRaw") {
+            errors.push({ path: `${base}.cff.t2_mode`, message: "must be Regulation or MetacogRaw" });
+          }
+        } else if (k === "conservative_lock_ai_hybrid") {
+          if (typeof v !== "boolean") {
+            errors.push({ path: `${base}.cff.conservative_lock_ai_hybrid`, message: "must be a boolean" });
+          }
+        } else {
+          errors.push({ path: `${base}.cff.${k}`, message: "is not a known cff policy field" });
+        }
+      }
+    }
+  }
+
+  if (x.rc !== undefined) {
+    if (!isObj(x.rc)) {
+      errors.push({ path: `${base}.rc`, message: "must be an object" });
+    } else {
+      for (const [k, v] of Object.entries(x.rc)) {
+        if (k === "centroid_profile") {
+          const names = listCentroidProfiles();
+          if (typeof v !== "string" || !names.includes(v)) {
+            errors.push({ path: `${base}.rc.centroid_profile`, message: `must be one of ${names.join(", ")}` });
+          }
+        } else {
+          errors.push({ path: `${base}.rc.${k}`, message: "is not a known rc policy field" });
+        }
+      }
+    }
+  }
+
+  if (x.rsl !== undefined) {
+    if (!isObj(x.rsl)) {
+      errors.push({ path: `${base}.rsl`, message: "must be an object" });
+    } else {
+      for (const [k, v] of Object.entries(x.rsl)) {
+        if (k === "level_policy") {
+          const names = listRslLevelPolicies();
+          if (typeof v !== "string" || !names.includes(v)) {
+            errors.push({ path: `${base}.rsl.level_policy`, message: `must be one of ${names.join(", ")}` });
+          }
+        } else if (k === "rubric_tolerance") {
+          if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > 5) {
+            errors.push({ path: `${base}.rsl.rubric_tolerance`, message: "must be a number within [0, 5]" });
+          }
+        } else if (k === "rubric_blend") {
+          if (v !== "off" && v !== "always" && v !== "on_divergence") {
+            errors.push({ path: `${base}.rsl.rubric_blend`, message: "must be off, always or on_divergence" });
+          }
+        } else if (k === "rubric_raw_weight") {
+          if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > 1) {
+            errors.push({ path: `${base}.rsl.rubric_raw_weight`, message: "must be a number within [0, 1]" });
+          }
+        } else if (k === "cohort_min_size") {
+          if (!Number.isInteger(v) || (v as number) < 1) {
+            errors.push({ path: `${base}.rsl.cohort_min_size`, message: "must be a positive integer" });
+          }
+        } else {
+          errors.push({ path: `${base}.rsl.${k}`, message: "is not a known rsl policy field" });
+        }
+      }
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: x as AnalysisPolicyOverride };
+}
+
+/* =========================
+   RSL level presets (validated at load)
+========================= */
+
+export type RslLevelPreset = {
+  name: string;
+  version: string;
+  description?: string;
+  flags: RSLLevelFlags;
+  gates: RSLLevelPolicy;
+};
+
+type RslLevelPoliciesFile = {
+  version: string;
+  policies: Record<string, Omit<RslLevelPreset, "name">>;
+};
+
+const LEVEL_FLAG_KEYS: (keyof RSLLevelFlags)[] = ["strict_mode", "evidence_required_for_L4plus", "allow_L6"];
+const LEVEL_GATE_KEYS: (keyof RSLLevelPolicy)[] = ["gate_L2_min", "gate_L3_min", "gate_L4_min", "gate_L5_min", "gate_L6_min"];
+
+function loadRslLevelPolicies(raw: unknown): Record<string, RslLevelPreset> {
+  const f = raw as RslLevelPoliciesFile;
+  if (!isObj(f) || !isObj(f.policies)) throw new Error("rsl_level_policies.json: `policies` must be an object");
+  const fallback = DEFAULT_ANALYSIS_POLICY.rsl.level_policy;
+  if (!f.policies[fallback]) throw new Error(`rsl_level_policies.json: "${fallback}" policy is required`);
+
+  const out: Record<string, RslLevelPreset> = {};
+  for (const [name, p] of Object.entries(f.policies)) {
+    const where = `rsl_level_policies.json: policies.${name}`;
+    if (!isObj(p) || typeof p.version !== "string" || !p.version) throw new Error(`${where}.version is required`);
+    if (!isObj(p.flags) || !isObj(p.gates)) throw new Error(`${where}: flags and gates must be objects`);
+
+    for (const k of LEVEL_FLAG_KEYS) {
+      if (typeof p.flags[k] !== "boolean") throw new Error(`${where}.flags.${k} must be a boolean`);
+    }
+    const g = p.gates;
+    const inRange = (v: unknown, lo: number, hi: number) => typeof v === "number" && Number.isFinite(v) && v >= lo && v <= hi;
+    LEVEL_GATE_KEYS.forEach((k, i) => {
+      if (!inRange(g[k], 0, 5)) throw new Error(`${where}.gates.${k} must be within [0, 5]`);
+      if (i > 0 && g[k] < g[LEVEL_GATE_KEYS[i - 1]]) throw new Error(`${where}.gates.${k} must not be below ${LEVEL_GATE_KEYS[i - 1]}`);
+    });
+    if (!Number.isInteger(g.min_evidence_count_for_L4plus) || g.min_evidence_count_for_L4plus < 0) {
+      throw new Error(`${where}.gates.min_evidence_count_for_L4plus must be a non-negative integer`);
+    }
+    if (!inRange(g.min_evidence_link_rate_for_L4plus, 0, 1)) {
+      throw new Error(`${where}.gates.min_evidence_link_rate_for_L4plus must be within [0, 1]`);
+    }
+    if (!inRange(g.strict_gate_bonus, 0, 5)) throw new Error(`${where}.gates.strict_gate_bonus must be within [0, 5]`);
+    if (!inRange(g.l6_integration_min, 0, 5)) throw new Error(`${where}.gates.l6_integration_min must be within [0, 5]`);
+
+    out[name] = { name, ...p };
+  }
+  return out;
+}
+
+const RSL_LEVEL_POLICIES = loadRslLevelPolicies(rslLevelPoliciesConfig);
+
+export function listRslLevelPolicies(): string[] {
+  return Object.keys(RSL_LEVEL_POLICIES);
+}
+
+export function getRslLevelPolicy(name = DEFAULT_ANALYSIS_POLICY.rsl.level_policy): RslLevelPreset {
+  const p = Object.prototype.hasOwnProperty.call(RSL_LEVEL_POLICIES, name) ? RSL_LEVEL_POLICIES[name] : null;
+  if (!p) throw new Error(`Unknown RSL level policy "${name}" (available: ${listRslLevelPolicies().join(", ")})`);
+  return p;
+}
+
+/* =========================
+   Tenant registry (validated at load)
+========================= */
+
+type TenantsFile = {
+  version: string;
+  default_tenant: string;
+  tenants: Record<string, TenantConfig>;
+};
+
+function loadTenants(raw: unknown): TenantsFile {
+  const f = raw as TenantsFile;
+  if (!isObj(f) || !isObj(f.tenants)) throw new Error("tenants.json: `tenants` must be an object");
+  if (!f.tenants[f.default_tenant]) {
+    throw new Error(`tenants.json: default_tenant "${f.default_tenant}" is not defined`);
+  }
+
+  for (const [id, t] of Object.entries(f.tenants)) {
+    if (t.policy === undefined) continue;
+    const res = validatePolicyOverride(t.policy, `tenants.${id}.policy`);
+    if (!res.ok) {
+      throw new Error(`tenants.json: ${res.errors.map((e) => `${e.path} ${e.message}`).join("; ")}`);
+    }
+  }
+  return f;
+}
+
+const TENANTS = loadTenants(tenantsConfig);
+
+export function listTenantIds(): string[] {
+  return Object.keys(TENANTS.tenants);
+}
+
+export function getTenantConfig(tenantId: string): TenantConfig | null {
+  return Object.prototype.hasOwnProperty.call(TENANTS.tenants, tenantId) ? TENANTS.tenants[tenantId] : null;
+}
+
+/* =========================
+   Resolution
+========================= */
+
+export function tenantIdFromRequest(req: Request, bodyTenantId?: string | null): string {
+  const h = req.headers.get(TENANT_HEADER)?.trim();
+  return h || bodyTenantId || TENANTS.default_tenant;
+}
+
+/** tenantIdFromRequest + existence check (PolicyError "unknown_tenant"). */
+export function requireTenantId(req: Request, bodyTenantId?: string | null): string {
+  const tenantId = tenantIdFromRequest(req, bodyTenantId);
+  if (!getTenantConfig(tenantId)) throw new PolicyError("unknown_tenant", `Unknown tenant "${tenantId}".`);
+  return tenantId;
+}
+
+function applyOverride(p: AnalysisPolicy, o?: AnalysisPolicyOverride): AnalysisPolicy {
+  if (!o) return p;
+  return {
+    cff: { ...p.cff, ...(o.cff ?? {}) },
+    rc: { ...p.rc, ...(o.rc ?? {}) },
+    rsl: { ...p.rsl, ...(o.rsl ?? {}) },
+  };
+}
+
+/**
+ * resolveAnalysisPolicy
+ * - Unknown tenant -> PolicyError("unknown_tenant")
+ * - override is assumed validated (validatePolicyOverride)
+ */
+export function resolveAnalysisPolicy(tenantId: string, override?: AnalysisPolicyOverride): ResolvedPolicy {
+  const tenant = getTenantConfig(tenantId);
+  if (!tenant) throw new PolicyError("unknown_tenant", `Unknown tenant "${tenantId}".`);
+
+  const policy = applyOverride(applyOverride(DEFAULT_ANALYSIS_POLICY, tenant.policy), override);
+  return { tenant_id: tenantId, policy };
+}
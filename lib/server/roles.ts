@@ -0,0 +1,322 @@
+// lib/server/roles.ts
+// RoleConfig catalog for job role fit (computeRfsJobGroupTop3 in derive/rfs.ts).
+//
+// - Built-in catalog: lib/config/role_configs.json (one RoleConfig per JOB_GROUPS job_id)
+// - Tenant overrides: tenants.json tenants.<id>.role_configs
+//   (entries replace built-ins with the same role_code; new role_codes are added)
+// - Tenant job catalog: tenants.json tenants.<id>.job_catalog
+//   mode "extend" adds job groups to the built-in 15, "replace" swaps them out
+//   (built-in RoleConfigs for jobs no longer in the catalog are dropped).
+//   Groups may carry an interpretation template with {group_name}, {percent},
+//   {recommended_role} and {arc_level} placeholders.
+// - Everything is validated at load: job_id known to the tenant's catalog, unique
+//   group_id / group_name / job_id / role_code, every catalog job covered by a RoleConfig,
+//   O*NET code format, OECD skill vocabulary, weights via validateWeights, min_requirements ranges.
+// - POST /api/role-fit body parsing (per-role breakdown for the HR tab).
+
+import {
+  BUILTIN_JOB_CATALOG,
+  JOB_INDEX,
+  RoleFitError,
+  validateWeights,
+  type GroupTemplate,
+  type JobCatalog,
+  type JobGroup,
+  type NeuprintAxes,
+  type RoleConfig,
+} from "./derive/rfs";
+import { EnvelopeError } from "./envelope";
+import { getTenantConfig, listTenantIds } from "./policy";
+import type { ValidationIssue } from "./schema";
+
+// Static import to avoid Vercel/serverless filesystem pitfalls.
+import roleConfigsFile from "../config/role_configs.json";
+
+export { RoleFitError };
+
+export const OECD_CORE_SKILLS = [
+  "literacy",
+  "numeracy",
+  "problem_solving",
+  "digital",
+  "critical_thinking",
+  "creativity",
+  "communication",
+  "collaboration",
+  "self_management",
+  "learning_to_learn",
+];
+
+export type JobCatalogMode = "extend" | "replace";
+
+// tenants.<id>.job_catalog
+export type TenantJobCatalog = {
+  mode: JobCatalogMode;
+  groups: Array<{
+    group_id: number;
+    group_name: string;
+    interpretation?: string; // template; see header for placeholders
+    jobs: Array<{ job_id: string; job_name: string }>;
+  }>;
+};
+
+const JOB_CATALOG_MODES: JobCatalogMode[] = ["extend", "replace"];
+const JOB_ID_RE = /^[a-z0-9][a-z0-9_]{0,63}$/;
+const TEMPLATE_KEYS = ["group_name", "percent", "recommended_role", "arc_level"];
+const ONET_CODE_RE = /^\d{2}-\d{4}\.\d{2}$/;
+const MIN_AXES = ["analyticity", "flow", "metacognition", "authenticity"] as const;
+
+/** Throws on a malformed RoleConfig; `where` prefixes the message. `index` is the active job catalog. */
+export function validateRoleConfig(x: unknown, where: string, index: Record<string, JobGroup> = JOB_INDEX): RoleConfig {
+  const r = x as RoleConfig;
+  if (!r || typeof r !== "object") throw new Error(`${where}: must be an object`);
+  if (typeof r.role_code !== "string" || !r.role_code) throw new Error(`${where}.role_code is required`);
+  if (!index[r.job_id]) throw new Error(`${where}.job_id "${r.job_id}" is not in the job catalog`);
+  if (typeof r.onet_code !== "string" || !ONET_CODE_RE.test(r.onet_code)) {
+    throw new Error(`${where}.onet_code must look like 13-1111.00`);
+  }
+  if (!Array.isArray(r.oecd_core_skills) || r.oecd_core_skills.some((s) => !OECD_CORE_SKILLS.includes(s))) {
+    throw new Error(`${where}.oecd_core_skills must be a list of: ${OECD_CORE_SKILLS.join(", ")}`);
+  }
+
+  try {
+    validateWeights(r.neuprint_axes_weights);
+  } catch (e: any) {
+    throw new Error(`${where}: ${e.message}`);
+  }
+
+  const m = r.min_requirements;
+  if (!m || typeof m !== "object") throw new Error(`${where}.min_requirements is required`);
+  if (!Number.isInteger(m.arc_level) || m.arc_level < 1 || m.arc_level > 6) {
+    throw new Error(`${where}.min_requirements.arc_level must be an integer 1..6`);
+  }
+  for (const k of MIN_AXES) {
+    const v = m[k];
+    if (v !== undefined && !(typeof v === "number" && v >= 0 && v <= 1)) {
+      throw new Error(`${where}.min_requirements.${k} must be within [0, 1]`);
+    }
+  }
+  return r;
+}
+
+function mergeByRoleCode(base: RoleConfig[], overrides: RoleConfig[]): RoleConfig[] {
+  const out = new Map(base.map((r) => [r.role_code, r]));
+  for (const r of overrides) out.set(r.role_code, r);
+  return [...out.values()];
+}
+
+function loadCatalog(list: unknown, where: string, index: Record<string, JobGroup> = JOB_INDEX): RoleConfig[] {
+  if (!Array.isArray(list)) throw new Error(`${where} must be an array`);
+  const seen = new Set<string>();
+  return list.map((x, i) => {
+    const r = validateRoleConfig(x, `${where}[${i}]`, index);
+    if (seen.has(r.role_code)) throw new Error(`${where}[${i}]: duplicate role_code "${r.role_code}"`);
+    seen.add(r.role_code);
+    return r;
+  });
+}
+
+function compileGroupTemplate(template: string, where: string): GroupTemplate {
+  for (const m of template.matchAll(/\{(\w+)\}/g)) {
+    if (!TEMPLATE_KEYS.includes(m[1])) {
+      throw new Error(`${where}.interpretation: unknown placeholder {${m[1]}} (use ${TEMPLATE_KEYS.join(", ")})`);
+    }
+  }
+  return (ctx) => template.replace(/\{(\w+)\}/g, (_, k: string) => String(ctx[k as keyof typeof ctx]));
+}
+
+/** Builds a tenant job catalog (extend or replace the built-in groups); throws on malformed input. */
+export function buildJobCatalog(x: unknown, where: string): JobCatalog {
+  const c = x as TenantJobCatalog;
+  if (!c || typeof c !== "object") throw new Error(`${where}: must be an object`);
+  if (!JOB_CATALOG_MODES.includes(c.mode)) throw new Error(`${where}.mode must be one of ${JOB_CATALOG_MODES.join(", ")}`);
+  if (!Array.isArray(c.groups) || !c.groups.length) throw new Error(`${where}.groups must be a non-empty array`);
+
+  const extend = c.mode === "extend";
+  const groups: JobGroup[] = extend ? [...BUILTIN_JOB_CATALOG.groups] : [];
+  const templates: Record<number, GroupTemplate> = extend ? { ...BUILTIN_JOB_CATALOG.templates } : {};
+  const groupIds = new Set(groups.map((j) => j.group_id));
+  const groupNames = new Set(groups.map((j) => j.group_name));
+  const jobIds = new Set(groups.map((j) => j.job_id));
+
+  c.groups.forEach((g, i) => {
+    const w = `${where}.groups[${i}]`;
+    if (!g || typeof g !== "object") throw new Error(`${w}: must be an object`);
+    if (!Number.isInteger(g.group_id) || g.group_id < 1) throw new Error(`${w}.group_id must be a positive integer`);
+    if (groupIds.has(g.group_id)) throw new Error(`${w}: duplicate group_id ${g.group_id}`);
+    if (typeof g.group_name !== "string" || !g.group_name.trim()) throw new Error(`${w}.group_name is required`);
+    if (groupNames.has(g.group_name)) throw new Error(`${w}: duplicate group_name "${g.group_name}"`);
+    groupIds.add(g.group_id);
+    groupNames.add(g.group_name);
+
+    if (g.interpretation !== undefined) {
+      if (typeof g.interpretation !== "string" || !g.interpretation.trim()) {
+        throw new Error(`${w}.interpretation must be a non-empty string`);
+      }
+      templates[g.group_id] = compileGroupTemplate(g.interpretation, w);
+    }
+
+    if (!Array.isArray(g.jobs) || !g.jobs.length) throw new Error(`${w}.jobs must be a non-empty array`);
+    g.jobs.forEach((j, k) => {
+      const wj = `${w}.jobs[${k}]`;
+      if (!j || typeof j.job_id !== "string" || !JOB_ID_RE.test(j.job_id)) {
+        throw new Error(`${wj}.job_id must be 1-64 chars of a-z, 0-9 or '_'`);
+      }
+      if (jobIds.has(j.job_id)) throw new Error(`${wj}: duplicate job_id "${j.job_id}"`);
+      if (typeof j.job_name !== "string" || !j.job_name.trim()) throw new Error(`${wj}.job_name is required`);
+      jobIds.add(j.job_id);
+      groups.push({ group_id: g.group_id, group_name: g.group_name, job_id: j.job_id, job_name: j.job_name });
+    });
+  });
+
+  const index: Record<string, JobGroup> = {};
+  for (const j of groups) index[j.job_id] = j;
+  return { groups, index, templates };
+}
+
+// A catalog job without a RoleConfig could never be scored
+function assertJobCoverage(jobs: JobCatalog, roles: RoleConfig[], where: string) {
+  const covered = new Set(roles.map((r) => r.job_id));
+  const missing = jobs.groups.filter((j) => !covered.has(j.job_id)).map((j) => j.job_id);
+  if (missing.length) throw new Error(`${where}: no role_configs for job_id ${missing.join(", ")}`);
+}
+
+const BUILTIN_ROLE_CONFIGS = loadCatalog(roleConfigsFile.role_configs, "role_configs.json: role_configs");
+assertJobCoverage(BUILTIN_JOB_CATALOG, BUILTIN_ROLE_CONFIGS, "role_configs.json");
+
+const TENANT_CATALOGS: Record<string, { jobs: JobCatalog; roles: RoleConfig[] }> = {};
+for (const id of listTenantIds()) {
+  const t = getTenantConfig(id);
+  if (t?.job_catalog === undefined && t?.role_configs === undefined) continue;
+
+  const where = `tenants.json: tenants.${id}`;
+  const jobs = t.job_catalog === undefined ? BUILTIN_JOB_CATALOG : buildJobCatalog(t.job_catalog, `${where}.job_catalog`);
+  const roles = mergeByRoleCode(
+    BUILTIN_ROLE_CONFIGS.filter((r) => jobs.index[r.job_id]),
+    loadCatalog(t.role_configs ?? [], `${where}.role_configs`, jobs.index)
+  );
+  assertJobCoverage(jobs, roles, where);
+
+  TENANT_CATALOGS[id] = { jobs, roles };
+}
+
+/** Active catalog: the tenant's merged catalog, else the built-in one. */
+export function getRoleConfigs(tenantId?: string): RoleConfig[] {
+  return (tenantId && TENANT_CATALOGS[tenantId]?.roles) || BUILTIN_ROLE_CONFIGS;
+}
+
+/** Active job groups + interpretation templates: the tenant's catalog, else the built-in one. */
+export function getJobCatalog(tenantId?: string): JobCatalog {
+  return (tenantId && TENANT_CATALOGS[tenantId]?.jobs) || BUILTIN_JOB_CATALOG;
+}
+
+/**
+ * analysis_input.role_configs replaces the tenant catalog for one request, so it gets the
+ * same checks as tenants.json entries (against the tenant's job catalog). Throws 422 with details.
+ */
+export function assertRequestRoleConfigs(tenantId: string, list: unknown, base = "analysis_input.role_configs"): void {
+  if (list === undefined) return;
+  const index = getJobCatalog(tenantId).index;
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  (Array.isArray(list) ? list : []).forEach((x, i) => {
+    const path = `${base}[${i}]`;
+    try {
+      const r = validateRoleConfig(x, path, index);
+      if (seen.has(r.role_code)) issues.push({ path: `${path}.role_code`, message: `duplicate role_code "${r.role_code}"` });
+      seen.add(r.role_code);
+    } catch (e: any) {
+      const msg = String(e?.message ?? e);
+      issues.push({ path, message: msg.startsWith(path) ? msg.slice(path.length).replace(/^[.:]\s*/, "") : msg });
+    }
+  });
+
+  if (issues.length) {
+    const n = issues.length;
+    throw new EnvelopeError(
+      "invalid_role_configs",
+      `\`${base}\` failed validation (${n} issue${n === 1 ? "" : "s"}).`,
+      422,
+      issues
+    );
+  }
+}
+
+/** Catalog entries for one job_id (optionally one role_code); 404 when none match. */
+export function getRoleConfigsForJob(
+  tenantId: string,
+  jobId: string,
+  roleCode?: string,
+  configs: RoleConfig[] = getRoleConfigs(tenantId)
+): RoleConfig[] {
+  if (!getJobCatalog(tenantId).index[jobId]) {
+    throw new RoleFitError("unknown_job_id", `Unknown job_id "${jobId}".`, 404);
+  }
+  const out = configs.filter(
+    (r) => r.job_id === jobId && (roleCode === undefined || r.role_code === roleCode)
+  );
+  if (!out.length) {
+    const what = roleCode === undefined ? `job_id "${jobId}"` : `role_code "${roleCode}" under job_id "${jobId}"`;
+    throw new RoleFitError("no_role_config", `No RoleConfig for ${what}.`, 404);
+  }
+  return out;
+}
+
+/* =========================
+   Body parsing
+========================= */
+
+// POST /api/role-fit: either axes + arc_level (from a report's rfs block) or analysis_input to derive them
+export type RoleFitRequest = {
+  job_id: string;
+  role_code?: string;
+  tenant_id?: string;
+  axes?: NeuprintAxes;
+  arc_level?: number;
+  analysis_input?: unknown; // checked by assertAnalysisInput in the route
+};
+
+export function parseRoleFitBody(x: unknown): RoleFitRequest {
+  if (!x || typeof x !== "object" || Array.isArray(x)) {
+    throw new RoleFitError("invalid_body", "Request body must be a JSON object.");
+  }
+  const b = x as Record<string, any>;
+  if (typeof b.job_id !== "string" || !b.job_id) {
+    throw new RoleFitError("invalid_role_fit", "`job_id` must be a non-empty string.");
+  }
+  if (b.role_code !== undefined && typeof b.role_code !== "string") {
+    throw new RoleFitError("invalid_role_fit", "`role_code` must be a string.");
+  }
+  if (b.tenant_id !== undefined && (typeof b.tenant_id !== "string" || !b.tenant_id.trim())) {
+    throw new RoleFitError("invalid_tenant", "`tenant_id` must be a non-empty string.");
+  }
+  const req: RoleFitRequest = { job_id: b.job_id, role_code: b.role_code, tenant_id: b.tenant_id?.trim() };
+
+  if (b.axes !== undefined) {
+    if (!b.axes || typeof b.axes !== "object") throw new RoleFitError("invalid_role_fit", "`axes` must be an object.");
+    for (const k of MIN_AXES) {
+      const v = b.axes[k];
+      if (!(typeof v === "number" && v >= 0 && v <= 1)) {
+        throw new RoleFitError("invalid_role_fit", `\`axes.${k}\` must be a number within [0, 1].`);
+      }
+    }
+    if (!Number.isInteger(b.arc_level) || b.arc_level < 1 || b.arc_level > 6) {
+      throw new RoleFitError("invalid_role_fit", "`arc_level` must be an integer 1..6 when `axes` is given.");
+    }
+    req.axes = {
+      analyticity: b.axes.analyticity,
+      flow: b.axes.flow,
+      metacognition: b.axes.metacognition,
+      authenticity: b.axes.authenticity,
+    };
+    req.arc_level = b.arc_level;
+    return req;
+  }
+
+  if (!b.analysis_input || typeof b.analysis_input !== "object" || Array.isArray(b.analysis_input)) {
+    throw new RoleFitError("empty_submission", "Provide `axes` + `arc_level` or `analysis_input`.");
+  }
+  req.analysis_input = b.analysis_input;
+  return req;
+}
@@ -0,0 +1,326 @@
+// lib/server/schema.ts
+// Canonical analysis_input (v1) shared by every derive module, plus its runtime validator.
+//
+// - One shape only: analysis_input.raw_features + analysis_input.rsl_rubric.
+//   (No aliases such as raw / rawFeatures / raw_features_v1.)
+// - validateAnalysisInput returns path-addressed issues, e.g.
+//     { path: "raw_features.layer_0.per_unit.transitions", message: "length 7 must equal units (8)" }
+//   so the API can answer 422 instead of silently scoring zeros.
+
+import type { RoleConfig } from "./derive/rfs";
+
+export type StructureTypeV1 = "linear" | "hierarchical" | "networked";
+
+export const PER_UNIT_KEYS = [
+  "transitions",
+  "revisions",
+  "claims",
+  "reasons",
+  "evidence",
+  "sub_claims",
+  "warrants",
+  "counterpoints",
+  "refutations",
+  "transition_ok",
+  "revision_depth",
+  "belief_change",
+] as const;
+
+export type PerUnitKey = (typeof PER_UNIT_KEYS)[number];
+
+// Narrative RSL dimensions (narrative_text.rsl.dimensions[].code)
+export const NARRATIVE_DIMENSION_CODES = ["R1", "R2", "R3", "R4", "R5", "R6", "R7", "R8"] as const;
+
+export type RawFeaturesLayer0 = {
+  units: number; // >= 1
+  unit_lengths?: number[]; // length === units
+  per_unit?: Partial<Record<PerUnitKey, number[]>>; // each length === units
+  claims: number;
+  reasons: number;
+  evidence: number;
+};
+
+export type RawFeaturesLayer1 = {
+  sub_claims: number;
+  warrants: number;
+  counterpoints: number;
+  refutations: number;
+  structure_type?: StructureTypeV1 | null;
+};
+
+export type RawFeaturesLayer2 = {
+  transitions: number;
+  transition_types?: string[];
+  transition_ok: number; // <= transitions
+  revisions: number;
+  revision_depth_sum: number;
+  belief_change?: boolean;
+};
+
+export type RawFeaturesLayer3 = {
+  intent_markers: number;
+  drift_segments: number;
+  hedges: number;
+  loops: number;
+  self_regulation_signals: number;
+};
+
+export type BackendReservedV1 = {
+  kpf_sim: number | null; // 0..1
+  tps_h: number | null; // 0..1 (0..100 accepted, normalized downstream)
+};
+
+export type RawFeaturesLayeredV1 = {
+  layer_0: RawFeaturesLayer0;
+  layer_1: RawFeaturesLayer1;
+  layer_2: RawFeaturesLayer2;
+  layer_3: RawFeaturesLayer3;
+  evidence_types?: Record<string, number> | string[]; // count map or list of types
+  adjacency_links?: number;
+  backend_reserved?: BackendReservedV1;
+};
+
+export type RslRubricV1 = {
+  coherence: number; // 0..5
+  structure: number; // 0..5
+  evaluation: number; // 0..5
+  integration: number; // 0..5
+};
+
+export type AnalysisInputV1 = {
+  raw_features: RawFeaturesLayeredV1;
+  rsl_rubric: RslRubricV1;
+
+  // optional caller-supplied context
+  cohort_fri_list?: number[];
+  role_configs?: RoleConfig[];
+};
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: ValidationIssue[] };
+
+/* =========================
+   Validator
+========================= */
+
+function isObj(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function isFiniteNumber(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x);
+}
+
+class IssueList {
+  items: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    this.items.push({ path, message });
+  }
+
+  object(v: unknown, path: string): v is Record<string, any> {
+    if (isObj(v)) return true;
+    this.add(path, v === undefined ? "is required" : "must be an object");
+    return false;
+  }
+
+  count(v: unknown, path: string, required = true): v is number {
+    if (v === undefined && !required) return false;
+    if (!isFiniteNumber(v)) {
+      this.add(path, v === undefined ? "is required" : "must be a finite number");
+      return false;
+    }
+    if (v < 0 || Math.floor(v) !== v) {
+      this.add(path, `must be a non-negative integer (got ${v})`);
+      return false;
+    }
+    return true;
+  }
+
+  range(v: unknown, path: string, lo: number, hi: number, required = true): v is number {
+    if (v === undefined && !required) return false;
+    if (!isFiniteNumber(v)) {
+      this.add(path, v === undefined ? "is required" : "must be a finite number");
+      return false;
+    }
+    if (v < lo || v > hi) {
+      this.add(path, `must be within [${lo}, ${hi}] (got ${v})`);
+      return false;
+    }
+    return true;
+  }
+
+  unitArray(v: unknown, path: string, units: number | null) {
+    if (v === undefined) return;
+    if (!Array.isArray(v)) {
+      this.add(path, "must be an array");
+      return;
+    }
+    if (units != null && v.length !== units) {
+      this.add(path, `length ${v.length} must equal units (${units})`);
+    }
+    v.forEach((x, i) => {
+      if (!isFiniteNumber(x) || x < 0) this.add(`${path}[${i}]`, "must be a non-negative number");
+    });
+  }
+}
+
+function validateRawFeatures(rf: unknown, issues: IssueList, base: string) {
+  if (!issues.object(rf, base)) return;
+
+  // layer_0
+  const l0 = rf.layer_0;
+  let units: number | null = null;
+  if (issues.object(l0, `${base}.layer_0`)) {
+    if (issues.count(l0.units, `${base}.layer_0.units`)) {
+      if (l0.units < 1) issues.add(`${base}.layer_0.units`, "must be >= 1");
+      else units = l0.units;
+    }
+    issues.unitArray(l0.unit_lengths, `${base}.layer_0.unit_lengths`, units);
+
+    if (l0.per_unit !== undefined && issues.object(l0.per_unit, `${base}.layer_0.per_unit`)) {
+      for (const k of Object.keys(l0.per_unit)) {
+        if (!(PER_UNIT_KEYS as readonly string[]).includes(k)) {
+          issues.add(`${base}.layer_0.per_unit.${k}`, "is not a known per-unit series");
+          continue;
+        }
+        issues.unitArray(l0.per_unit[k], `${base}.layer_0.per_unit.${k}`, units);
+      }
+    }
+
+    for (const k of ["claims", "reasons", "evidence"]) issues.count(l0[k], `${base}.layer_0.${k}`);
+  }
+
+  // layer_1
+  const l1 = rf.layer_1;
+  if (issues.object(l1, `${base}.layer_1`)) {
+    for (const k of ["sub_claims", "warrants", "counterpoints", "refutations"]) {
+      issues.count(l1[k], `${base}.layer_1.${k}`);
+    }
+    const st = l1.structure_type;
+    if (st !== undefined && st !== null && !["linear", "hierarchical", "networked"].includes(st)) {
+      issues.add(`${base}.layer_1.structure_type`, "must be linear, hierarchical, networked or null");
+    }
+  }
+
+  // layer_2
+  const l2 = rf.layer_2;
+  if (issues.object(l2, `${base}.layer_2`)) {
+    const okT = issues.count(l2.transitions, `${base}.layer_2.transitions`);
+    const okTok = issues.count(l2.transition_ok, `${base}.layer_2.transition_ok`);
+    if (okT && okTok && l2.transition_ok > l2.transitions) {
+      issues.add(`${base}.layer_2.transition_ok`, `must not exceed transitions (${l2.transitions})`);
+    }
+    issues.count(l2.revisions, `${base}.layer_2.revisions`);
+    issues.range(l2.revision_depth_sum, `${base}.layer_2.revision_depth_sum`, 0, Number.MAX_SAFE_INTEGER);
+    if (l2.transition_types !== undefined) {
+      if (!Array.isArray(l2.transition_types) || l2.transition_types.some((t: unknown) => typeof t !== "string")) {
+        issues.add(`${base}.layer_2.transition_types`, "must be an array of strings");
+      }
+    }
+    if (l2.belief_change !== undefined && typeof l2.belief_change !== "boolean") {
+      issues.add(`${base}.layer_2.belief_change`, "must be a boolean");
+    }
+  }
+
+  // layer_3
+  const l3 = rf.layer_3;
+  if (issues.object(l3, `${base}.layer_3`)) {
+    for (const k of ["intent_markers", "drift_segments", "hedges", "loops", "self_regulation_signals"]) {
+      issues.count(l3[k], `${base}.layer_3.${k}`);
+    }
+  }
+
+  // evidence_types: { type: count } or [type, ...]
+  if (Array.isArray(rf.evidence_types)) {
+    rf.evidence_types.forEach((t: unknown, i: number) => {
+      if (typeof t !== "string") issues.add(`${base}.evidence_types[${i}]`, "must be a string");
+    });
+  } else if (rf.evidence_types !== undefined && issues.object(rf.evidence_types, `${base}.evidence_types`)) {
+    for (const [k, v] of Object.entries(rf.evidence_types)) issues.count(v, `${base}.evidence_types.${k}`);
+  }
+
+  issues.count(rf.adjacency_links, `${base}.adjacency_links`, false);
+
+  if (rf.backend_reserved !== undefined && issues.object(rf.backend_reserved, `${base}.backend_reserved`)) {
+    const br = rf.backend_reserved;
+    if (br.kpf_sim != null) issues.range(br.kpf_sim, `${base}.backend_reserved.kpf_sim`, 0, 1);
+    if (br.tps_h != null) issues.range(br.tps_h, `${base}.backend_reserved.tps_h`, 0, 100);
+  }
+}
+
+function validateRubric(r: unknown, issues: IssueList, base: string) {
+  if (!issues.object(r, base)) return;
+  for (const k of ["coherence", "structure", "evaluation", "integration"]) {
+    issues.range(r[k], `${base}.${k}`, 0, 5);
+  }
+}
+
+/**
+ * validateNarrativeRsl
+ * - narrative RSL block: { summary?: { one_line, paragraph }, dimensions?: [{ code, label, score_1to5, observation }] }
+ * - code must be R1..R8 (no repeats) and score_1to5 is required within [1, 5]; the scores feed the RSL style proxies.
+ * - strict (model responses): summary, dimensions and every field are required.
+ */
+export function validateNarrativeRsl(x: unknown, base: string, strict = false): ValidationIssue[] {
+  const issues = new IssueList();
+  if (!issues.object(x, base)) return issues.items;
+
+  if (x.summary !== undefined || strict) {
+    if (issues.object(x.summary, `${base}.summary`)) {
+      for (const k of ["one_line", "paragraph"]) {
+        const v = x.summary[k];
+        if ((v !== undefined || strict) && typeof v !== "string") issues.add(`${base}.summary.${k}`, "must be a string");
+      }
+    }
+  }
+
+  if (x.dimensions === undefined && !strict) return issues.items;
+  if (!Array.isArray(x.dimensions)) {
+    issues.add(`${base}.dimensions`, x.dimensions === undefined ? "is required" : "must be an array");
+    return issues.items;
+  }
+  const seen = new Set<string>();
+  x.dimensions.forEach((d: unknown, i: number) => {
+    const p = `${base}.dimensions[${i}]`;
+    if (!issues.object(d, p)) return;
+    if (!(NARRATIVE_DIMENSION_CODES as readonly string[]).includes(d.code)) {
+      issues.add(`${p}.code`, `must be one of ${NARRATIVE_DIMENSION_CODES.join(", ")}`);
+    } else if (seen.has(d.code)) {
+      issues.add(`${p}.code`, `duplicate code ${d.code}`);
+    } else {
+      seen.add(d.code);
+    }
+    issues.range(d.score_1to5, `${p}.score_1to5`, 1, 5);
+    for (const k of ["label", "observation"]) {
+      if ((d[k] !== undefined || strict) && typeof d[k] !== "string") issues.add(`${p}.${k}`, "must be a string");
+    }
+  });
+  return issues.items;
+}
+
+export function validateAnalysisInput(x: unknown): ValidationResult<AnalysisInputV1> {
+  const issues = new IssueList();
+
+  if (issues.object(x, "analysis_input")) {
+    validateRawFeatures(x.raw_features, issues, "raw_features");
+    validateRubric(x.rsl_rubric, issues, "rsl_rubric");
+
+    if (x.cohort_fri_list !== undefined) {
+      if (!Array.isArray(x.cohort_fri_list)) issues.add("cohort_fri_list", "must be an array");
+      else x.cohort_fri_list.forEach((v: unknown, i: number) => issues.range(v, `cohort_fri_list[${i}]`, 0, 5));
+    }
+    if (x.role_configs !== undefined && !Array.isArray(x.role_configs)) {
+      issues.add("role_configs", "must be an array");
+    }
+  }
+
+  if (issues.items.length) return { ok: false, errors: issues.items };
+  return { ok: true, value: x as AnalysisInputV1 };
+}
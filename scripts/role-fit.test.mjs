@@ -0,0 +1,83 @@
+// scripts/role-fit.test.mjs
+// computeRoleFitBreakdown: axis contributions, arc boost, min-requirement gaps and next band.
+// Run with `npm test` (compiles lib/ to .test-build/ first).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const { computeRoleFitBreakdown, RoleFitError } = require("../.test-build/lib/server/derive/rfs.js");
+const { getRoleConfigs } = require("../.test-build/lib/server/roles.js");
+
+// weights 0.4 / 0.25 / 0.25 / 0.1; min arc_level 3, analyticity 0.5
+const ANALYST = getRoleConfigs().find((r) => r.role_code === "strategy_analyst");
+
+const axes = (analyticity, flow = 0.5, metacognition = 0.5, authenticity = 0.5) => ({
+  analyticity,
+  flow,
+  metacognition,
+  authenticity,
+});
+
+test("passing profile: contributions, arc boost and next band", () => {
+  const b = computeRoleFitBreakdown({ axes: axes(0.5), arc_level: 4 }, ANALYST);
+
+  assert.equal(b.job_name, "Strategy Analyst");
+  assert.deepEqual(b.contributions.analyticity, { value: 0.5, weight: 0.4, contribution: 0.2 });
+  assert.equal(b.base_score, 0.5);
+  assert.deepEqual(b.arc, { user_level: 4, min_level: 3, boost: 0.02 });
+  assert.equal(b.score_0to1, 0.52);
+  assert.equal(b.percent, 52);
+  assert.equal(b.meets_min_requirements, true);
+  assert.deepEqual(b.min_requirements, [
+    { requirement: "arc_level", required: 3, actual: 4, passed: true, gap: 0 },
+    { requirement: "analyticity", required: 0.5, actual: 0.5, passed: true, gap: 0 },
+  ]);
+  // 60% starts at 0.595; authenticity alone (weight 0.1) cannot close 0.075
+  assert.deepEqual(b.next_band, {
+    percent: 60,
+    score_gain_needed: 0.075,
+    axis_gain_needed: { analyticity: 0.1875, flow: 0.3, metacognition: 0.3, authenticity: null },
+  });
+});
+
+test("failing profile reports each gap and no arc boost", () => {
+  const b = computeRoleFitBreakdown({ axes: axes(0.3), arc_level: 2 }, ANALYST);
+
+  assert.equal(b.arc.boost, 0);
+  assert.equal(b.percent, 42);
+  assert.equal(b.meets_min_requirements, false);
+  assert.deepEqual(
+    b.min_requirements.map((c) => [c.requirement, c.passed, c.gap]),
+    [
+      ["arc_level", false, 1],
+      ["analyticity", false, 0.2],
+    ]
+  );
+  assert.equal(b.next_band.percent, 50);
+});
+
+test("no next band at 100%", () => {
+  const b = computeRoleFitBreakdown({ axes: axes(1, 1, 1, 1), arc_level: 6 }, ANALYST);
+  assert.equal(b.percent, 100);
+  assert.equal(b.next_band, null);
+});
+
+test("bad axes and unknown jobs raise RoleFitError 422", () => {
+  const code = (fn) => {
+    try {
+      fn();
+    } catch (e) {
+      assert.ok(e instanceof RoleFitError);
+      assert.equal(e.status, 422);
+      return e.code;
+    }
+    assert.fail("expected a RoleFitError");
+  };
+  assert.equal(code(() => computeRoleFitBreakdown({ axes: axes(1.5), arc_level: 3 }, ANALYST)), "invalid_axes");
+  assert.equal(
+    code(() => computeRoleFitBreakdown({ axes: axes(0.5), arc_level: 3 }, { ...ANALYST, job_id: "no_such_job" })),
+    "invalid_role_config"
+  );
+});
@@ -0,0 +1,104 @@
+// scripts/schema.test.mjs
+// analysis_input validation: path-addressed issues and the 422 the API answers with.
+// Run with `npm test` (compiles lib/ to .test-build/ first).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const { validateAnalysisInput } = require("../.test-build/lib/server/schema.js");
+const { assertAnalysisInput, EnvelopeError } = require("../.test-build/lib/server/envelope.js");
+const fixture = require("../lib/fixtures/fixture_analysis_input_v1.json");
+
+// Fresh copy of the fixture analysis_input, edited by fn
+function input(fn = () => {}) {
+  const x = structuredClone(fixture.analysis_input);
+  fn(x);
+  return x;
+}
+
+function issuesOf(x) {
+  const res = validateAnalysisInput(x);
+  assert.equal(res.ok, false);
+  return res.errors;
+}
+
+test("fixture analysis_input is valid", () => {
+  const res = validateAnalysisInput(input());
+  assert.equal(res.ok, true);
+});
+
+test("non-object analysis_input is rejected at the root", () => {
+  assert.deepEqual(issuesOf(null), [{ path: "analysis_input", message: "must be an object" }]);
+  assert.deepEqual(issuesOf([]), [{ path: "analysis_input", message: "must be an object" }]);
+});
+
+test("missing blocks are reported as required", () => {
+  assert.deepEqual(issuesOf({}), [
+    { path: "raw_features", message: "is required" },
+    { path: "rsl_rubric", message: "is required" },
+  ]);
+  const errors = issuesOf(input((x) => delete x.raw_features.layer_2));
+  assert.deepEqual(errors, [{ path: "raw_features.layer_2", message: "is required" }]);
+});
+
+test("per-unit arrays must match units", () => {
+  const errors = issuesOf(input((x) => x.raw_features.layer_0.per_unit.transitions.pop()));
+  assert.deepEqual(errors, [
+    { path: "raw_features.layer_0.per_unit.transitions", message: "length 7 must equal units (8)" },
+  ]);
+  const lengths = issuesOf(input((x) => x.raw_features.layer_0.unit_lengths.push(10)));
+  assert.deepEqual(lengths, [{ path: "raw_features.layer_0.unit_lengths", message: "length 9 must equal units (8)" }]);
+});
+
+test("unknown per-unit series and bad element values are path-addressed", () => {
+  const errors = issuesOf(
+    input((x) => {
+      x.raw_features.layer_0.per_unit.paragraphs = [1, 2];
+      x.raw_features.layer_0.per_unit.revisions[3] = -1;
+    })
+  );
+  assert.deepEqual(errors, [
+    { path: "raw_features.layer_0.per_unit.revisions[3]", message: "must be a non-negative number" },
+    { path: "raw_features.layer_0.per_unit.paragraphs", message: "is not a known per-unit series" },
+  ]);
+});
+
+test("counts, cross-field limits and ranges", () => {
+  const errors = issuesOf(
+    input((x) => {
+      x.raw_features.layer_0.claims = 1.5;
+      x.raw_features.layer_2.transition_ok = 9;
+      x.raw_features.backend_reserved.kpf_sim = 2;
+      x.rsl_rubric.coherence = 6;
+      x.cohort_fri_list = [1, "2"];
+    })
+  );
+  assert.deepEqual(
+    errors.map((e) => e.path),
+    [
+      "raw_features.layer_0.claims",
+      "raw_features.layer_2.transition_ok",
+      "raw_features.backend_reserved.kpf_sim",
+      "rsl_rubric.coherence",
+      "cohort_fri_list[1]",
+    ]
+  );
+  assert.equal(errors[1].message, "must not exceed transitions (5)");
+});
+
+test("assertAnalysisInput answers 422 with the issues as details", () => {
+  const bad = input((x) => x.raw_features.layer_0.per_unit.transitions.pop());
+  assert.throws(
+    () => assertAnalysisInput(bad),
+    (e) => {
+      assert.ok(e instanceof EnvelopeError);
+      assert.equal(e.code, "invalid_analysis_input");
+      assert.equal(e.status, 422);
+      assert.deepEqual(e.details, validateAnalysisInput(bad).errors);
+      return true;
+    }
+  );
+  assert.deepEqual(assertAnalysisInput(input()), input());
+});
@@ -0,0 +1,91 @@
+// scripts/signal-rules.test.mjs
+// S1–S18 activation rules and the band-capped Observed Structural Signals selection.
+// Run with `npm test` (compiles lib/ to .test-build/ first).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const {
+  BAND_DISPLAY_LINES,
+  buildSignalLibraryV1_S1toS18,
+  computeSignalFeatures,
+  evaluateSignalRules,
+  selectObservedSignals,
+} = require("../.test-build/lib/server/derive/rc.js");
+const fixture = require("../lib/fixtures/fixture_analysis_input_v1.json");
+
+const LIBRARY = buildSignalLibraryV1_S1toS18();
+const FEATURES = Object.keys(computeSignalFeatures({ raw_features: fixture.analysis_input.raw_features }));
+
+// Every feature unavailable (null): no condition can hold
+const NONE = Object.fromEntries(FEATURES.map((k) => [k, null]));
+
+// Smallest value satisfying a condition
+function satisfy({ op, value }) {
+  return op === ">" ? value + 1 : op === "<" ? value - 1 : value;
+}
+
+// A value that breaks a condition
+function violate({ op, value }) {
+  return op === ">=" || op === ">" ? value - 1 : value + 1;
+}
+
+// Features meeting exactly one rule's conditions (the first "any" branch), everything else null
+function meeting(rule) {
+  const f = { ...NONE };
+  for (const c of [...(rule.all ?? []), ...(rule.any ?? []).slice(0, 1)]) f[c.feature] = satisfy(c);
+  return f;
+}
+
+const ids = (activations) => activations.map((a) => a.id);
+
+test("library covers S1..S18 with known features", () => {
+  assert.deepEqual(Object.keys(LIBRARY), Array.from({ length: 18 }, (_, i) => `S${i + 1}`));
+  for (const t of Object.values(LIBRARY)) {
+    for (const c of [...(t.rule.all ?? []), ...(t.rule.any ?? [])]) {
+      assert.ok(FEATURES.includes(c.feature), `${t.id}: unknown feature ${c.feature}`);
+    }
+  }
+});
+
+test("no rule fires when every feature is unavailable", () => {
+  assert.deepEqual(evaluateSignalRules(NONE), []);
+});
+
+test("each rule fires on features meeting its own conditions", () => {
+  for (const t of Object.values(LIBRARY)) {
+    assert.ok(ids(evaluateSignalRules(meeting(t.rule))).includes(t.id), `${t.id} did not fire`);
+  }
+});
+
+test("each rule stays off when one of its 'all' conditions fails", () => {
+  for (const t of Object.values(LIBRARY)) {
+    for (const c of t.rule.all ?? []) {
+      const f = { ...meeting(t.rule), [c.feature]: violate(c) };
+      assert.ok(!ids(evaluateSignalRules(f)).includes(t.id), `${t.id} fired with ${c.feature} failing`);
+    }
+  }
+});
+
+test("'any' rules fire on either branch (S4)", () => {
+  assert.ok(ids(evaluateSignalRules({ ...NONE, belief_change: 1 })).includes("S4"));
+  assert.ok(ids(evaluateSignalRules({ ...NONE, self_regulation_signals: 2 })).includes("S4"));
+  assert.ok(!ids(evaluateSignalRules({ ...NONE, belief_change: 0, self_regulation_signals: 1 })).includes("S4"));
+});
+
+test("fixture activations and traces", () => {
+  const activations = evaluateSignalRules(computeSignalFeatures({ raw_features: fixture.analysis_input.raw_features }));
+  assert.deepEqual(ids(activations), ["S1", "S2", "S3", "S5", "S6", "S7", "S8", "S9", "S10", "S11", "S12", "S14", "S17"]);
+  assert.equal(activations[0].rule, "revisions >= 1 AND transitions >= 1");
+});
+
+test("selection is capped by the reliability band", () => {
+  const all = new Set(Object.keys(LIBRARY));
+  for (const band of ["HIGH", "MEDIUM", "LOW"]) {
+    assert.equal(selectObservedSignals(all, band).lines.length, BAND_DISPLAY_LINES[band]);
+  }
+  assert.deepEqual(selectObservedSignals(all, "LOW").ids, ["S1", "S5"]);
+  assert.deepEqual(selectObservedSignals(new Set(["S8"]), "HIGH").ids, ["S8"]);
+});
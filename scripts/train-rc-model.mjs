@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+// scripts/train-rc-model.mjs
+// Fit the Reasoning Control logistic model (p_human) from a labelled local CSV.
+//
+// Usage:
+//   npm run train:rc -- --in data/rc_labelled.csv --version rc-logistic-v2 [--l2 0.01] [--epochs 4000] [--lr 0.5]
+//
+// CSV (header required):
+//   aas,ctf,rmd,rdx,eds,hi,tps_hist,ifd,label
+//   - feature columns are 0..1 CFV values; missing columns / empty cells are imputed
+//     exactly as at serving time (CFV_IMPUTE_VALUES in lib/server/derive/rc.ts)
+//   - label: human | hybrid | ai  (or 1 / 0.5 / 0); hybrid is fitted as a soft 0.5 target
+//
+// Writes lib/models/rc/<version>.json; lib/server/models.ts registers every file in that directory.
+
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CFV_KEYS = ["aas", "ctf", "rmd", "rdx", "eds", "hi", "tps_hist", "ifd"];
+// Same values as CFV_IMPUTE_VALUES in lib/server/derive/rc.ts (tps_hist absent -> no logit term)
+const CFV_IMPUTE_VALUES = { aas: 0.5, ctf: 0.5, rmd: 0.5, rdx: 0.5, eds: 0.5, hi: 0.5, tps_hist: 0, ifd: 0.5 };
+const LABELS = { human: 1, hybrid: 0.5, ai: 0, 1: 1, "0.5": 0.5, 0: 0 };
+
+function parseArgs(argv) {
+  const out = { l2: 0.01, epochs: 4000, lr: 0.5, z_clip: 20 };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) continue;
+    const k = a.slice(2);
+    const v = argv[i + 1];
+    if (v === undefined || v.startsWith("--")) throw new Error(`Missing value for --${k}`);
+    out[k] = ["l2", "epochs", "lr", "z_clip"].includes(k) ? Number(v) : v;
+    i++;
+  }
+  if (!out.in) throw new Error("--in <csv> is required");
+  if (!out.version) throw new Error("--version <name> is required");
+  return out;
+}
+
+function readCsv(path) {
+  const lines = readFileSync(path, "utf8")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("#"));
+  if (lines.length < 2) throw new Error(`${path}: needs a header and at least one row`);
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const li = header.indexOf("label");
+  if (li < 0) throw new Error(`${path}: missing "label" column`);
+
+  const rows = [];
+  lines.slice(1).forEach((line, n) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const y = LABELS[cells[li]?.toLowerCase()];
+    if (y === undefined) throw new Error(`${path}:${n + 2}: unknown label "${cells[li]}"`);
+
+    const x = CFV_KEYS.map((k) => {
+      const j = header.indexOf(k);
+      const cell = j < 0 ? "" : cells[j] ?? "";
+      const v = cell === "" ? CFV_IMPUTE_VALUES[k] : Number(cell);
+      if (!Number.isFinite(v) || v < 0 || v > 1) throw new Error(`${path}:${n + 2}: ${k} must be within 0..1`);
+      return v;
+    });
+    rows.push({ x, y });
+  });
+  return rows;
+}
+
+const sigmoid = (z) => 1 / (1 + Math.exp(-Math.max(-20, Math.min(20, z))));
+
+// Batch gradient descent on cross-entropy with L2 on the betas (not the intercept).
+function fit(rows, { l2, epochs, lr }) {
+  const d = CFV_KEYS.length;
+  let b0 = 0;
+  const w = new Array(d).fill(0);
+
+  for (let e = 0; e < epochs; e++) {
+    let g0 = 0;
+    const g = new Array(d).fill(0);
+    for (const { x, y } of rows) {
+      let z = b0;
+      for (let j = 0; j < d; j++) z += w[j] * x[j];
+      const r = sigmoid(z) - y;
+      g0 += r;
+      for (let j = 0; j < d; j++) g[j] += r * x[j];
+    }
+    b0 -= (lr * g0) / rows.length;
+    for (let j = 0; j < d; j++) w[j] -= lr * (g[j] / rows.length + l2 * w[j]);
+  }
+  return { b0, w };
+}
+
+function evaluate(rows, { b0, w }) {
+  let loss = 0;
+  let correct = 0;
+  let hard = 0;
+  for (const { x, y } of rows) {
+    let z = b0;
+    for (let j = 0; j < w.length; j++) z += w[j] * x[j];
+    const p = Math.min(1 - 1e-9, Math.max(1e-9, sigmoid(z)));
+    loss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    if (y !== 0.5) {
+      hard++;
+      if ((p >= 0.5 ? 1 : 0) === y) correct++;
+    }
+  }
+  return {
+    log_loss: Math.round((loss / rows.length) * 1e4) / 1e4,
+    accuracy_human_vs_ai: hard ? Math.round((correct / hard) * 1e4) / 1e4 : null,
+  };
+}
+
+const r4 = (x) => Math.round(x * 1e4) / 1e4;
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const rows = readCsv(resolve(args.in));
+  const model = fit(rows, args);
+  const metrics = evaluate(rows, model);
+
+  const here = dirname(fileURLToPath(import.meta.url));
+  const out = resolve(args.out ?? `${here}/../lib/models/rc/${args.version}.json`);
+  if (existsSync(out) && !args.force) throw new Error(`${out} exists (pass --force true to overwrite)`);
+
+  const file = {
+    version: args.version,
+    created_at: new Date().toISOString().slice(0, 10),
+    source: "fitted",
+    notes: `Fitted from ${args.in}`,
+    beta0: r4(model.b0),
+    betas: Object.fromEntries(CFV_KEYS.map((k, j) => [k, r4(model.w[j])])),
+    z_clip: args.z_clip,
+    training: {
+      rows: rows.length,
+      by_label: {
+        human: rows.filter((r) => r.y === 1).length,
+        hybrid: rows.filter((r) => r.y === 0.5).length,
+        ai: rows.filter((r) => r.y === 0).length,
+      },
+      l2: args.l2,
+      epochs: args.epochs,
+      lr: args.lr,
+      ...metrics,
+    },
+  };
+
+  writeFileSync(out, JSON.stringify(file, null, 2) + "\n");
+  console.log(`wrote ${out}`);
+  console.log(JSON.stringify(file.training));
+  console.log(`Set NP_RC_MODEL_VERSION=${args.version} to use it.`);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(`train-rc-model: ${e.message}`);
+  process.exit(1);
+}